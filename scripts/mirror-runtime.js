@@ -0,0 +1,165 @@
+// Download the Pyodide runtime and the Django wheels into static/ so the playground can be
+// served without reaching jsDelivr or PyPI (air-gapped machines, self-hosting).
+//
+// Usage: pnpm run mirror [--out static] [--pyodide 0.29.0,0.27.7] [--django 5.2,4.2]
+// (defaults to the default versions in src/lib/runtime-config.ts)
+// Then build with:
+//   VITE_PYODIDE_INDEX_URL=/pyodide/v{version}/full/
+//   VITE_WHEEL_INDEX_URLS=/wheels/{package_name}/index.json
+
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+
+// Runtime files loadPyodide fetches before any package
+const PYODIDE_CORE_FILES = [
+	'pyodide.mjs',
+	'pyodide.js',
+	'pyodide.asm.js',
+	'pyodide.asm.wasm',
+	'python_stdlib.zip',
+	'pyodide-lock.json'
+];
+
+// Pyodide packages the workers load (dependencies are resolved from the lock file)
+const PYODIDE_PACKAGES = ['micropip', 'sqlite3', 'tzdata'];
+
+// PyPI wheels installed with micropip
+const WHEEL_PACKAGES = ['django', 'asgiref', 'sqlparse'];
+
+/**
+ * Read a string constant from a source file so versions are defined in one place
+ */
+async function readConstant(file, name) {
+	const source = await readFile(join(root, file), 'utf-8');
+	const match = source.match(new RegExp(`const ${name} = '([^']+)'`));
+	if (!match) {
+		throw new Error(`${name} not found in ${file}`);
+	}
+	return match[1];
+}
+
+async function download(url, sha256) {
+	const response = await fetch(url);
+	if (!response.ok) {
+		throw new Error(`GET ${url} failed: ${response.status}`);
+	}
+	const data = Buffer.from(await response.arrayBuffer());
+	if (sha256 && createHash('sha256').update(data).digest('hex') !== sha256) {
+		throw new Error(`Checksum mismatch for ${url}`);
+	}
+	return data;
+}
+
+async function save(path, data) {
+	await mkdir(dirname(path), { recursive: true });
+	await writeFile(path, data);
+}
+
+async function mirrorPyodide(outDir, version) {
+	const cdn = `https://cdn.jsdelivr.net/pyodide/v${version}/full/`;
+	const target = join(outDir, 'pyodide', `v${version}`, 'full');
+
+	for (const file of PYODIDE_CORE_FILES) {
+		console.log(`pyodide: ${file}`);
+		await save(join(target, file), await download(cdn + file));
+	}
+
+	const lock = JSON.parse(await readFile(join(target, 'pyodide-lock.json'), 'utf-8'));
+	const pending = [...PYODIDE_PACKAGES];
+	const seen = new Set();
+	while (pending.length > 0) {
+		const name = pending.pop();
+		if (seen.has(name)) continue;
+		seen.add(name);
+
+		const entry = lock.packages[name];
+		if (!entry) {
+			throw new Error(`Package ${name} is not in the Pyodide ${version} lock file`);
+		}
+		console.log(`pyodide: ${entry.file_name}`);
+		await save(join(target, entry.file_name), await download(cdn + entry.file_name, entry.sha256));
+		pending.push(...entry.depends);
+	}
+}
+
+/**
+ * Mirror one wheel per package and write a PyPI JSON API document micropip can use as an index
+ */
+async function mirrorWheels(outDir, djangoVersions) {
+	for (const name of WHEEL_PACKAGES) {
+		const metadata = JSON.parse(
+			(await download(`https://pypi.org/pypi/${name}/json`)).toString('utf-8')
+		);
+
+		// Django gets the latest release of each selected series; the others their latest release
+		const versions =
+			name === 'django'
+				? djangoVersions.map((series) =>
+						Object.keys(metadata.releases)
+							.filter((v) => v === series || v.startsWith(`${series}.`))
+							.filter((v) => /^[\d.]+$/.test(v))
+							.sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+							.pop()
+					)
+				: [metadata.info.version];
+
+		const releases = {};
+		for (const version of versions) {
+			const wheel = metadata.releases[version]?.find((file) =>
+				file.filename.endsWith('-py3-none-any.whl')
+			);
+			if (!wheel) {
+				throw new Error(`No pure-Python wheel for ${name} ${version}`);
+			}
+
+			console.log(`wheels: ${wheel.filename}`);
+			await save(
+				join(outDir, 'wheels', 'files', wheel.filename),
+				await download(wheel.url, wheel.digests.sha256)
+			);
+			releases[version] = [{ ...wheel, url: `/wheels/files/${wheel.filename}` }];
+		}
+
+		const index = { info: { ...metadata.info, version: versions.at(-1) }, releases };
+		await save(join(outDir, 'wheels', name, 'index.json'), JSON.stringify(index, null, '\t'));
+	}
+}
+
+/**
+ * Value of a command line option, or undefined if it was not given
+ */
+function getOption(name) {
+	const index = process.argv.indexOf(`--${name}`);
+	return index === -1 ? undefined : process.argv[index + 1];
+}
+
+async function main() {
+	const outDir = join(root, getOption('out') ?? 'static');
+
+	const pyodideVersions = (
+		getOption('pyodide') ??
+		(await readConstant('src/lib/runtime-config.ts', 'DEFAULT_PYODIDE_VERSION'))
+	).split(',');
+	const djangoVersions = (
+		getOption('django') ??
+		(await readConstant('src/lib/runtime-config.ts', 'DEFAULT_DJANGO_VERSION'))
+	).split(',');
+
+	for (const version of pyodideVersions) {
+		await mirrorPyodide(outDir, version);
+	}
+	await mirrorWheels(outDir, djangoVersions);
+
+	console.log(`\nMirrored into ${outDir}. Build with:`);
+	console.log('  VITE_PYODIDE_INDEX_URL=/pyodide/v{version}/full/');
+	console.log('  VITE_WHEEL_INDEX_URLS=/wheels/{package_name}/index.json');
+}
+
+main().catch((error) => {
+	console.error(error.message);
+	process.exit(1);
+});
@@ -0,0 +1,144 @@
+import { runInNewContext } from 'node:vm';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { srcdocTemplate } from './srcdoc-template';
+
+type Listener = (event: unknown) => void;
+
+interface FakeElement {
+	nodeName: string;
+	attributes: Record<string, string>;
+	hasAttribute(name: string): boolean;
+	getAttribute(name: string): string | null;
+}
+
+function element(nodeName: string, attributes: Record<string, string>): FakeElement {
+	return {
+		nodeName,
+		attributes,
+		hasAttribute: (name) => name in attributes,
+		getAttribute: (name) => attributes[name] ?? null
+	};
+}
+
+// A form with its fields; the enctype property reflects the attribute as browsers do
+function form(attributes: Record<string, string>, fields: Array<[string, string]>) {
+	return {
+		...element('FORM', attributes),
+		fields,
+		enctype: attributes.enctype ?? 'application/x-www-form-urlencoded'
+	};
+}
+
+function button(attributes: Record<string, string>) {
+	return { ...element('BUTTON', attributes), formEnctype: attributes.formenctype ?? '' };
+}
+
+// What the preview posts to the page, and its submit listener
+let posted: Array<Record<string, unknown>>;
+let submit: Listener;
+
+beforeEach(() => {
+	posted = [];
+	const script = srcdocTemplate.match(/<script>([\s\S]*)<\/script>/)![1];
+	const listeners: Record<string, Listener> = {};
+	const window = {
+		location: { href: 'about:srcdoc', hash: '' },
+		parent: { postMessage: (message: Record<string, unknown>) => posted.push(message) },
+		addEventListener: () => {}
+	};
+	const document = {
+		addEventListener: (type: string, listener: Listener) => (listeners[type] = listener),
+		body: { addEventListener: () => {} }
+	};
+	// The form's fields, then the clicked button's name and value
+	class FormData {
+		fields: Array<[string, string]>;
+		constructor(form: { fields: Array<[string, string]> }, submitter?: FakeElement) {
+			this.fields = [...form.fields];
+			if (submitter?.attributes.name) {
+				this.fields.push([submitter.attributes.name, submitter.attributes.value ?? '']);
+			}
+		}
+		entries() {
+			return this.fields[Symbol.iterator]();
+		}
+	}
+	runInNewContext(script, { window, document, FormData, URL, URLSearchParams, EventTarget });
+	submit = listeners.submit;
+	posted = [];
+});
+
+function submitForm(target: ReturnType<typeof form>, submitter?: ReturnType<typeof button>) {
+	submit({ target, submitter, preventDefault: () => {}, stopPropagation: () => {} });
+	return posted[0];
+}
+
+describe('form submissions', () => {
+	it('send GET forms as a query string replacing the action query', () => {
+		const message = submitForm(
+			form({ action: '/search/?page=2', method: 'get' }, [
+				['q', 'a b'],
+				['tag', 'x'],
+				['tag', 'y']
+			])
+		);
+
+		expect(message).toMatchObject({
+			type: 'formSubmit',
+			path: '/search/?q=a+b&tag=x&tag=y',
+			method: 'GET',
+			body: ''
+		});
+	});
+
+	it('send POST forms as fields with the CSRF token as a header', () => {
+		const message = submitForm(
+			form({ action: '/save/', method: 'post' }, [
+				['csrfmiddlewaretoken', 'token'],
+				['name', 'Ada']
+			]),
+			button({ name: 'save', value: '1' })
+		);
+
+		expect(message).toMatchObject({
+			path: '/save/',
+			method: 'POST',
+			body: [
+				['csrfmiddlewaretoken', 'token'],
+				['name', 'Ada'],
+				['save', '1']
+			],
+			headers: { 'Content-Type': 'application/x-www-form-urlencoded', 'X-CSRFToken': 'token' }
+		});
+	});
+
+	it("take the button's formaction, formmethod and formenctype over the form's", () => {
+		const message = submitForm(
+			form({ action: '/save/', method: 'get' }, [['name', 'Ada']]),
+			button({
+				formaction: '/upload/',
+				formmethod: 'post',
+				formenctype: 'multipart/form-data'
+			})
+		);
+
+		expect(message).toMatchObject({
+			path: '/upload/',
+			method: 'POST',
+			headers: { 'Content-Type': 'multipart/form-data' }
+		});
+	});
+
+	it("use the form's attributes for buttons without their own", () => {
+		const message = submitForm(
+			form({ action: '/upload/', method: 'post', enctype: 'multipart/form-data' }, []),
+			button({ name: 'go' })
+		);
+
+		expect(message).toMatchObject({
+			path: '/upload/',
+			method: 'POST',
+			headers: { 'Content-Type': 'multipart/form-data' }
+		});
+	});
+});
@@ -22,6 +22,246 @@ export const srcdocTemplate = `
 		// Track the current Django path (received from parent)
 		let currentPath = '/';
 
+		// EventSource shim: the stream is requested through the parent, which runs the view
+		// in the worker and forwards the text/event-stream body chunk by chunk
+		// Streams are not reconnected when they end, so a finished view does not run again
+		const eventSources = new Map();
+		const eventSourcePrefix = Math.random().toString(36).slice(2);
+		let nextEventSourceId = 1;
+
+		class PlaygroundEventSource extends EventTarget {
+			constructor(url, options) {
+				super();
+				const resolved = new URL(String(url), 'http://localhost:8000' + currentPath);
+				this.url = resolved.href;
+				this.withCredentials = Boolean(options && options.withCredentials);
+				this.readyState = PlaygroundEventSource.CONNECTING;
+				this.onopen = null;
+				this.onmessage = null;
+				this.onerror = null;
+				this._id = eventSourcePrefix + '-' + nextEventSourceId++;
+				this._decoder = new TextDecoder();
+				this._buffer = '';
+				this._data = [];
+				this._eventType = '';
+				this._lastEventId = '';
+				eventSources.set(this._id, this);
+				window.parent.postMessage({
+					type: 'eventSource',
+					id: this._id,
+					path: resolved.pathname + resolved.search
+				}, '*');
+			}
+
+			close() {
+				if (this.readyState === PlaygroundEventSource.CLOSED) return;
+				this.readyState = PlaygroundEventSource.CLOSED;
+				eventSources.delete(this._id);
+				window.parent.postMessage({ type: 'eventSourceClose', id: this._id }, '*');
+			}
+
+			_dispatch(event) {
+				this.dispatchEvent(event);
+				const handler = this['on' + event.type];
+				if (['open', 'message', 'error'].includes(event.type) && typeof handler === 'function') {
+					handler.call(this, event);
+				}
+			}
+
+			_fail() {
+				this.readyState = PlaygroundEventSource.CLOSED;
+				eventSources.delete(this._id);
+				this._dispatch(new Event('error'));
+			}
+
+			_open(status, contentType) {
+				if (!status.startsWith('200') || !contentType.toLowerCase().startsWith('text/event-stream')) {
+					this._fail();
+					return;
+				}
+				this.readyState = PlaygroundEventSource.OPEN;
+				this._dispatch(new Event('open'));
+			}
+
+			// Parse the event stream format line by line
+			_receive(chunk) {
+				this._buffer += this._decoder.decode(chunk, { stream: true });
+				const lines = this._buffer.split(/\\r\\n|\\r|\\n/);
+				this._buffer = lines.pop();
+				for (const line of lines) {
+					if (this.readyState !== PlaygroundEventSource.OPEN) return;
+					if (line === '') {
+						this._dispatchMessage();
+						continue;
+					}
+					if (line.startsWith(':')) continue;
+					const colon = line.indexOf(':');
+					const field = colon === -1 ? line : line.slice(0, colon);
+					let value = colon === -1 ? '' : line.slice(colon + 1);
+					if (value.startsWith(' ')) value = value.slice(1);
+					if (field === 'data') {
+						this._data.push(value);
+					} else if (field === 'event') {
+						this._eventType = value;
+					} else if (field === 'id' && !value.includes('\\0')) {
+						this._lastEventId = value;
+					}
+				}
+			}
+
+			_dispatchMessage() {
+				const type = this._eventType || 'message';
+				const data = this._data.join('\\n');
+				const hasData = this._data.length > 0;
+				this._data = [];
+				this._eventType = '';
+				if (!hasData) return;
+				this._dispatch(new MessageEvent(type, {
+					data: data,
+					lastEventId: this._lastEventId,
+					origin: 'http://localhost:8000'
+				}));
+			}
+		}
+		PlaygroundEventSource.CONNECTING = 0;
+		PlaygroundEventSource.OPEN = 1;
+		PlaygroundEventSource.CLOSED = 2;
+		window.EventSource = PlaygroundEventSource;
+
+		// WebSocket shim: frames are relayed through the parent to the project's ASGI
+		// application in the worker. Every socket connects to the project whatever the host,
+		// and URLs built from the srcdoc's empty location.host ('ws:///path') keep their path
+		const webSockets = new Map();
+		let nextWebSocketId = 1;
+
+		class PlaygroundWebSocket extends EventTarget {
+			constructor(url, protocols) {
+				super();
+				const raw = String(url).replace(/^(wss?|https?):\\/\\/\\/(?!\\/)/, '/');
+				const resolved = new URL(raw, 'http://localhost:8000' + currentPath);
+				if (!['ws:', 'wss:', 'http:', 'https:'].includes(resolved.protocol)) {
+					throw new DOMException('Unsupported WebSocket URL ' + url, 'SyntaxError');
+				}
+				resolved.protocol = resolved.protocol === 'https:' || resolved.protocol === 'wss:' ? 'wss:' : 'ws:';
+				this.url = resolved.href;
+				this.readyState = PlaygroundWebSocket.CONNECTING;
+				this.protocol = '';
+				this.extensions = '';
+				this.bufferedAmount = 0;
+				this.binaryType = 'blob';
+				this.onopen = null;
+				this.onmessage = null;
+				this.onerror = null;
+				this.onclose = null;
+				this._id = eventSourcePrefix + '-ws-' + nextWebSocketId++;
+				// Blobs are read before sending, so frames wait their turn to keep their order
+				this._sending = Promise.resolve();
+				webSockets.set(this._id, this);
+				window.parent.postMessage({
+					type: 'webSocketOpen',
+					id: this._id,
+					path: resolved.pathname + resolved.search,
+					protocols: protocols === undefined ? [] : [].concat(protocols).map(String)
+				}, '*');
+			}
+
+			send(data) {
+				if (this.readyState === PlaygroundWebSocket.CONNECTING) {
+					throw new DOMException('WebSocket is still connecting', 'InvalidStateError');
+				}
+				if (this.readyState !== PlaygroundWebSocket.OPEN) return;
+				const id = this._id;
+				this._sending = this._sending.then(async () => {
+					let frame;
+					if (typeof data === 'string') {
+						frame = { text: data };
+					} else if (data instanceof Blob) {
+						frame = { bytes: new Uint8Array(await data.arrayBuffer()) };
+					} else if (ArrayBuffer.isView(data)) {
+						frame = { bytes: new Uint8Array(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength)) };
+					} else if (data instanceof ArrayBuffer) {
+						frame = { bytes: new Uint8Array(data.slice(0)) };
+					} else {
+						frame = { text: String(data) };
+					}
+					window.parent.postMessage({ type: 'webSocketSend', id: id, ...frame }, '*');
+				});
+			}
+
+			close(code, reason) {
+				if (code !== undefined && code !== 1000 && (code < 3000 || code > 4999)) {
+					throw new DOMException('Invalid close code ' + code, 'InvalidAccessError');
+				}
+				if (this.readyState >= PlaygroundWebSocket.CLOSING) return;
+				this.readyState = PlaygroundWebSocket.CLOSING;
+				webSockets.delete(this._id);
+				const closeCode = code === undefined ? 1005 : code;
+				this._sending.then(() => {
+					window.parent.postMessage({ type: 'webSocketClose', id: this._id, code: closeCode === 1005 ? 1000 : closeCode }, '*');
+					this._closed(closeCode, reason === undefined ? '' : String(reason));
+				});
+			}
+
+			// Drop the connection without events, as leaving a page does
+			_abandon() {
+				webSockets.delete(this._id);
+				this.readyState = PlaygroundWebSocket.CLOSED;
+				window.parent.postMessage({ type: 'webSocketClose', id: this._id, code: 1001 }, '*');
+			}
+
+			_dispatch(event) {
+				this.dispatchEvent(event);
+				const handler = this['on' + event.type];
+				if (typeof handler === 'function') {
+					handler.call(this, event);
+				}
+			}
+
+			_open(protocol) {
+				if (this.readyState !== PlaygroundWebSocket.CONNECTING) return;
+				this.readyState = PlaygroundWebSocket.OPEN;
+				this.protocol = protocol;
+				this._dispatch(new Event('open'));
+			}
+
+			_receive(text, bytes) {
+				if (this.readyState !== PlaygroundWebSocket.OPEN) return;
+				let data = text;
+				if (bytes !== undefined) {
+					data = this.binaryType === 'arraybuffer'
+						? bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength)
+						: new Blob([bytes]);
+				}
+				this._dispatch(new MessageEvent('message', { data: data, origin: new URL(this.url).origin }));
+			}
+
+			_closed(code, reason) {
+				webSockets.delete(this._id);
+				if (this.readyState === PlaygroundWebSocket.CLOSED) return;
+				this.readyState = PlaygroundWebSocket.CLOSED;
+				// Connections refused during the handshake or dropped report an error first
+				if (code === 1006) this._dispatch(new Event('error'));
+				this._dispatch(new CloseEvent('close', { code: code, reason: reason, wasClean: code !== 1006 }));
+			}
+		}
+		PlaygroundWebSocket.CONNECTING = 0;
+		PlaygroundWebSocket.OPEN = 1;
+		PlaygroundWebSocket.CLOSING = 2;
+		PlaygroundWebSocket.CLOSED = 3;
+		window.WebSocket = PlaygroundWebSocket;
+
+		// innerHTML does not run scripts, so each one is replaced with a fresh copy that does
+		function runScripts(container) {
+			for (const script of container.querySelectorAll('script')) {
+				const fresh = document.createElement('script');
+				for (const attribute of script.attributes) {
+					fresh.setAttribute(attribute.name, attribute.value);
+				}
+				fresh.textContent = script.textContent;
+				script.replaceWith(fresh);
+			}
+		}
+
 		// Listen for messages from parent
 		window.addEventListener('message', (event) => {
 			// Ignore messages without data
@@ -36,7 +276,41 @@ export const srcdocTemplate = `
 					currentPath = event.data.currentPath;
 				}
 				// Update the content
-				document.getElementById('content').innerHTML = event.data.html;
+				// Partial updates are a streaming page still arriving; its scripts run once it is complete
+				const content = document.getElementById('content');
+				if (!event.data.partial) {
+					for (const source of Array.from(eventSources.values())) {
+						source.close();
+					}
+					for (const socket of Array.from(webSockets.values())) {
+						socket._abandon();
+					}
+				}
+				content.innerHTML = event.data.html;
+				if (!event.data.partial) {
+					runScripts(content);
+				}
+			} else if (event.data.type === 'eventSourceOpen') {
+				const source = eventSources.get(event.data.id);
+				if (source) source._open(event.data.status, event.data.contentType);
+			} else if (event.data.type === 'eventSourceChunk') {
+				const source = eventSources.get(event.data.id);
+				if (source) source._receive(event.data.chunk);
+			} else if (event.data.type === 'eventSourceEnd') {
+				const source = eventSources.get(event.data.id);
+				if (source) {
+					source._receive(new Uint8Array());
+					source._fail();
+				}
+			} else if (event.data.type === 'webSocketAccept') {
+				const socket = webSockets.get(event.data.id);
+				if (socket) socket._open(event.data.protocol);
+			} else if (event.data.type === 'webSocketMessage') {
+				const socket = webSockets.get(event.data.id);
+				if (socket) socket._receive(event.data.text, event.data.bytes);
+			} else if (event.data.type === 'webSocketClose') {
+				const socket = webSockets.get(event.data.id);
+				if (socket) socket._closed(event.data.code, event.data.reason);
 			}
 		});
 
@@ -101,42 +375,61 @@ export const srcdocTemplate = `
 			event.stopPropagation();
 
 			// Get form details - use tracked currentPath instead of window.location.pathname
-			const action = form.getAttribute('action') || currentPath;
-			const method = (form.getAttribute('method') || 'GET').toUpperCase();
+			// The clicked button's formaction, formmethod and formenctype override the form's
+			const submitter = event.submitter;
+			const attribute = (buttonName, formName) =>
+				submitter && submitter.hasAttribute(buttonName)
+					? submitter.getAttribute(buttonName)
+					: form.getAttribute(formName);
+			const action = attribute('formaction', 'action') || currentPath;
+			const method = (attribute('formmethod', 'method') || 'GET').toUpperCase();
+			const enctype =
+				submitter && submitter.hasAttribute('formenctype') ? submitter.formEnctype : form.enctype;
 
-			// Collect form data
-			const formData = new FormData(form);
-			const formObject = {};
+			// Collect form data, including the clicked submit button
+			// Fields stay a list of [name, value] pairs so repeated names survive, and
+			// file inputs keep their File objects (postMessage clones them with their bytes)
+			const formData = new FormData(form, submitter || undefined);
+			const fields = Array.from(formData.entries());
 			const headers = {};
 
-			// Convert FormData to plain object and extract CSRF token
-			let csrfToken = null;
-			for (const [key, value] of formData.entries()) {
-				formObject[key] = value;
-				if (key === 'csrfmiddlewaretoken') {
-					csrfToken = value;
-				}
+			// GET forms submit their fields as the query string, like a browser does
+			if (method !== 'POST') {
+				const query = new URLSearchParams(
+					fields.map(([key, value]) => [key, typeof value === 'string' ? value : value.name])
+				).toString();
+				window.parent.postMessage({
+					type: 'formSubmit',
+					path: action.split('?')[0] + (query ? '?' + query : ''),
+					method: method,
+					body: '',
+					headers: headers
+				}, '*');
+				return;
 			}
 
-			// Set content type and CSRF header for POST requests
-			if (method === 'POST') {
-				headers['Content-Type'] = 'application/x-www-form-urlencoded';
-				// Add CSRF token as header (Django checks this)
-				if (csrfToken) {
-					headers['X-CSRFToken'] = csrfToken;
-				}
-				// Set referer to make Django's CSRF middleware happy
-				headers['Referer'] = window.location.href || 'http://localhost:8000';
-			}
+			const csrfEntry = fields.find(([key]) => key === 'csrfmiddlewaretoken');
+			const csrfToken = csrfEntry ? csrfEntry[1] : null;
 
-			
+			// Set content type and CSRF header
+			// The worker adds the multipart boundary when it encodes the body
+			headers['Content-Type'] =
+				enctype === 'multipart/form-data'
+					? 'multipart/form-data'
+					: 'application/x-www-form-urlencoded';
+			// Add CSRF token as header (Django checks this)
+			if (csrfToken) {
+				headers['X-CSRFToken'] = csrfToken;
+			}
+			// Set referer to make Django's CSRF middleware happy
+			headers['Referer'] = window.location.href || 'http://localhost:8000';
 
 			// Send form submission to parent for Django to handle
 			window.parent.postMessage({
 				type: 'formSubmit',
 				path: action,
 				method: method,
-				body: formObject,
+				body: fields,
 				headers: headers
 			}, '*');
 		}, true);
@@ -0,0 +1,57 @@
+// Which runtimes a project can pick, and where workers load them from
+// Override at build time to self-host (see "Self-hosting and offline use" in the README):
+//   VITE_PYODIDE_INDEX_URL=/pyodide/v{version}/full/ ({version} is the selected Pyodide release)
+//   VITE_WHEEL_INDEX_URLS=/wheels/{package_name}/index.json (comma-separated, tried in order)
+
+import type { RuntimeVersions } from '$lib/types';
+
+export const PYODIDE_VERSIONS = [
+	{ version: '0.29.0', python: '3.13' },
+	{ version: '0.28.3', python: '3.13' },
+	{ version: '0.27.7', python: '3.12' }
+] as const;
+
+export const DJANGO_VERSIONS = ['5.2', '5.1', '4.2'] as const;
+
+export const DEFAULT_PYODIDE_VERSION = '0.29.0';
+export const DEFAULT_DJANGO_VERSION = '5.2';
+export const DEFAULT_RUNTIME_VERSIONS: RuntimeVersions = {
+	django: DEFAULT_DJANGO_VERSION,
+	pyodide: DEFAULT_PYODIDE_VERSION
+};
+
+const DEFAULT_PYODIDE_INDEX_URL = 'https://cdn.jsdelivr.net/pyodide/v{version}/full/';
+
+export interface RuntimeConfig {
+	pyodideIndexURL: string; // Directory holding pyodide.mjs, the lock file and Pyodide packages
+	wheelIndexURLs: string[]; // micropip index_urls; empty means PyPI
+}
+
+export function getRuntimeConfig(pyodideVersion: string = DEFAULT_PYODIDE_VERSION): RuntimeConfig {
+	const template = import.meta.env.VITE_PYODIDE_INDEX_URL || DEFAULT_PYODIDE_INDEX_URL;
+	const indexURL = template.replaceAll('{version}', pyodideVersion);
+	const wheelIndexURLs = (import.meta.env.VITE_WHEEL_INDEX_URLS || '')
+		.split(',')
+		.map((url: string) => url.trim())
+		.filter(Boolean);
+
+	// loadPyodide expects an absolute URL with a trailing slash
+	const base = globalThis.location?.href ?? DEFAULT_PYODIDE_INDEX_URL;
+	const pyodideIndexURL = new URL(indexURL.endsWith('/') ? indexURL : `${indexURL}/`, base).href;
+
+	return { pyodideIndexURL, wheelIndexURLs };
+}
+
+/**
+ * Keep supported versions from stored or shared data, falling back to the defaults
+ */
+export function normalizeRuntimeVersions(value: unknown): RuntimeVersions {
+	const versions = (value ?? {}) as Partial<RuntimeVersions>;
+	const django = DJANGO_VERSIONS.find((version) => version === versions.django);
+	const pyodide = PYODIDE_VERSIONS.find((entry) => entry.version === versions.pyodide);
+
+	return {
+		django: django ?? DEFAULT_DJANGO_VERSION,
+		pyodide: pyodide?.version ?? DEFAULT_PYODIDE_VERSION
+	};
+}
@@ -0,0 +1,62 @@
+import type { BootTimings } from '$lib/types';
+import type { SwapRecord, WorkerInfo } from '$lib/worker-pool';
+
+const REQUEST_HISTORY_LIMIT = 50;
+const BOOT_HISTORY_LIMIT = 50;
+
+// A finished worker boot, kept after the worker is gone to compare startup sources
+export interface BootRecord {
+	workerId: string;
+	timings: BootTimings;
+}
+
+// Where the time of one request went
+export interface RequestTiming {
+	method: string;
+	path: string;
+	status?: string;
+	startedAt: number;
+	sync: number; // ms spent syncing files before the request
+	roundTrip: number; // ms from posting the request to receiving the result
+	phases: Record<string, number>; // Per-phase ms measured inside the worker
+}
+
+class DiagnosticsState {
+	workers = $state<WorkerInfo[]>([]); // Pool status, refreshed on every pool change and heartbeat
+	swaps = $state<SwapRecord[]>([]);
+	requests = $state<RequestTiming[]>([]); // Oldest first
+	boots = $state<BootRecord[]>([]); // Oldest first
+
+	setPoolStatus(workers: WorkerInfo[], swaps: SwapRecord[]) {
+		this.workers = workers;
+		this.swaps = swaps;
+
+		const booted = workers.filter(
+			(worker) => worker.bootTimings && !this.boots.some((boot) => boot.workerId === worker.id)
+		);
+		if (booted.length > 0) {
+			const records = booted.map((worker) => ({
+				workerId: worker.id,
+				timings: worker.bootTimings!
+			}));
+			this.boots = [...this.boots, ...records].slice(-BOOT_HISTORY_LIMIT);
+		}
+	}
+
+	addRequest(timing: RequestTiming) {
+		this.requests = [...this.requests, timing].slice(-REQUEST_HISTORY_LIMIT);
+	}
+
+	clearRequests() {
+		this.requests = [];
+	}
+
+	reset() {
+		this.workers = [];
+		this.swaps = [];
+		this.requests = [];
+		this.boots = [];
+	}
+}
+
+export const diagnosticsState = new DiagnosticsState();
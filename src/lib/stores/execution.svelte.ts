@@ -1,4 +1,4 @@
-import type { ExecutionResult, LogEntry, HttpCookies } from '$lib/types';
+import type { ExecutionResult, LogEntry, HttpCookie, HttpCookies } from '$lib/types';
 import { CookieStorage } from '$lib/utils/cookie-storage.svelte';
 
 export enum ReplState {
@@ -8,17 +8,42 @@ export enum ReplState {
 	READY = 'ready'                  // Has executed at least once, ready for changes/refresh
 }
 
+const REQUEST_TIMEOUT_KEY = 'django-playground-request-timeout';
+const DEFAULT_REQUEST_TIMEOUT = 30; // Seconds
+
 class ExecutionState {
 	replState = $state<ReplState>(ReplState.INITIALIZING);
 	isExecuting = $state(false);
 	executionResult = $state<ExecutionResult | null>(null);
 	logs = $state<LogEntry[]>([]);
 	isWorkerReady = $state(false);
+	isCancelling = $state(false);
+	requestTimeout = $state(DEFAULT_REQUEST_TIMEOUT); // Seconds before a view is stopped; 0 disables
+	isRecovering = $state(false); // Replacing a crashed or recycled active worker
+	failedRequirements = $state<string[]>([]); // requirements.txt packages the workers could not install
 	cookieStorage: CookieStorage;
+	private streamDecoder: TextDecoder | null = null; // Decodes a streaming HTML page
 
 	constructor() {
-		// Initialize cookie storage with localStorage persistence
+		// Initialize cookie storage with localStorage persistence (per project, see setScope)
 		this.cookieStorage = new CookieStorage();
+
+		if (typeof localStorage !== 'undefined') {
+			const saved = localStorage.getItem(REQUEST_TIMEOUT_KEY);
+			if (saved !== null && !isNaN(Number(saved))) {
+				this.requestTimeout = Number(saved);
+			}
+		}
+	}
+
+	/**
+	 * Set the per-request timeout in seconds (0 disables it)
+	 */
+	setRequestTimeout(seconds: number) {
+		this.requestTimeout = seconds;
+		if (typeof localStorage !== 'undefined') {
+			localStorage.setItem(REQUEST_TIMEOUT_KEY, String(seconds));
+		}
 	}
 
 	addLog(entry: LogEntry) {
@@ -30,18 +55,18 @@ class ExecutionState {
 	}
 
 	/**
-	 * Get all cookies as an object to send with requests
+	 * Get the cookies to send with a request to the given path
 	 */
-	getCookies(): HttpCookies {
-		return this.cookieStorage.getAll();
+	getCookies(path: string): HttpCookies {
+		return this.cookieStorage.getAll(path);
 	}
 
 	/**
 	 * Process Set-Cookie headers from execution result
 	 */
-	processCookies(cookies: Array<{ name: string; value: string }>) {
-		for (const { name, value } of cookies) {
-			this.cookieStorage.set(name, value);
+	processCookies(cookies: HttpCookie[]) {
+		for (const cookie of cookies) {
+			this.cookieStorage.store(cookie);
 		}
 	}
 
@@ -58,10 +83,10 @@ class ExecutionState {
 	}
 
 	setExecutionResult(result: ExecutionResult) {
-		// Preserve existing HTML if the new result doesn't have HTML
+		// Preserve existing HTML if the new result doesn't have HTML or another body
 		// This prevents management commands (migrate, makemigrations, createSuperuser)
 		// from clearing the displayed HTML
-		if (result.html === undefined && this.executionResult?.html) {
+		if (result.html === undefined && result.body === undefined && this.executionResult?.html) {
 			this.executionResult = {
 				...result,
 				html: this.executionResult.html
@@ -79,6 +104,86 @@ class ExecutionState {
 		}
 	}
 
+	/**
+	 * Show a streaming response while its chunks arrive
+	 * HTML pages render as they grow and other bodies go to the response viewer;
+	 * the request's final result replaces it (with static files inlined)
+	 */
+	startStream(status: string, headers: Array<[string, string]>) {
+		const header = (name: string) =>
+			headers.find(([headerName]) => headerName.toLowerCase() === name)?.[1];
+		const contentType = header('content-type');
+		const isHtml =
+			!/^\s*attachment/i.test(header('content-disposition') ?? '') &&
+			(contentType ?? 'text/html').includes('text/html');
+
+		this.streamDecoder = null;
+		if (isHtml) {
+			const charset = contentType?.match(/charset="?([^";\s]+)"?/i)?.[1] ?? 'utf-8';
+			try {
+				this.streamDecoder = new TextDecoder(charset);
+			} catch {
+				this.streamDecoder = new TextDecoder();
+			}
+		}
+
+		this.executionResult = {
+			success: true,
+			output: '',
+			logs: [],
+			status,
+			headers,
+			contentType,
+			html: isHtml ? '' : undefined,
+			body: isHtml ? undefined : new Uint8Array(),
+			streaming: true
+		};
+	}
+
+	appendStreamChunk(chunk: Uint8Array) {
+		const result = this.executionResult;
+		if (!result?.streaming) return;
+
+		if (this.streamDecoder) {
+			const text = this.streamDecoder.decode(chunk, { stream: true });
+			this.executionResult = { ...result, html: (result.html ?? '') + text };
+		} else {
+			const previous = result.body ?? new Uint8Array();
+			const body = new Uint8Array(previous.length + chunk.length);
+			body.set(previous);
+			body.set(chunk, previous.length);
+			this.executionResult = { ...result, body };
+		}
+	}
+
+	/**
+	 * Show that the running request was stopped, keeping the last rendered page underneath
+	 */
+	setCancelled(reason: 'cancelled' | 'timeout', seconds?: number) {
+		const message =
+			reason === 'timeout'
+				? `Request timed out after ${seconds}s and was stopped`
+				: 'Request cancelled';
+		this.setExecutionResult({
+			success: false,
+			output: '',
+			error: message,
+			cancelReason: reason,
+			logs: []
+		});
+		this.isCancelling = false;
+	}
+
+	/**
+	 * End a request whose worker failed before producing a result
+	 */
+	failExecution() {
+		this.isExecuting = false;
+		if (this.replState === ReplState.RUNNING) {
+			this.replState = ReplState.READY;
+		}
+	}
+
 	startExecution(clearLogs: boolean = false) {
 		this.isExecuting = true;
 		this.replState = ReplState.RUNNING;
@@ -93,6 +198,9 @@ class ExecutionState {
 		this.executionResult = null;
 		this.logs = [];
 		this.isWorkerReady = false;
+		this.isCancelling = false;
+		this.isRecovering = false;
+		this.failedRequirements = [];
 	}
 }
 
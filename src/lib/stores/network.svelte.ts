@@ -0,0 +1,135 @@
+import type {
+	ExecuteRequestPayload,
+	ExecutionResult,
+	HttpCookie,
+	HttpCookies,
+	PythonProfile,
+	SqlQuery
+} from '$lib/types';
+
+const NETWORK_HISTORY_LIMIT = 100;
+
+// What started a request
+export type NetworkInitiator = 'run' | 'navigation' | 'form' | 'redirect' | 'eventsource';
+
+// One request made to the project, as shown in the Network panel
+export interface NetworkEntry {
+	id: number;
+	initiator: NetworkInitiator;
+	method: string;
+	path: string;
+	startedAt: number;
+	duration?: number; // ms until the result arrived; undefined while pending
+	status?: string;
+	error?: string; // Why the request produced no response (worker error, cancelled...)
+	requestHeaders: Array<[string, string]>; // As Django received them, once the result is in
+	requestBody?: string; // Form fields and text bodies, decoded for display
+	cookiesSent: HttpCookies;
+	cookiesSet: HttpCookie[];
+	responseHeaders: Array<[string, string]>;
+	contentType?: string;
+	responseBody?: Uint8Array; // HTML pages are kept encoded too, so every body shows the same way
+	redirectedFrom?: number; // Entry that redirected here
+	redirectedTo?: number; // Entry that followed this one's Location
+	timings: Record<string, number>; // Per-phase ms measured inside the worker
+	queries: SqlQuery[]; // SQL the request ran, shown in the SQL panel
+	profile?: PythonProfile; // For requests run with "Profile this request"
+}
+
+/**
+ * Describe a request body for display: form fields URL-encoded, files by name and size
+ */
+function describeBody(body: ExecuteRequestPayload['body']): string | undefined {
+	if (body === undefined || body === '') return undefined;
+	if (typeof body === 'string') return body;
+	if (Array.isArray(body)) {
+		return body
+			.map(([name, value]) =>
+				typeof value === 'string'
+					? `${name}=${value}`
+					: `${name}=<file ${value.name}, ${value.size} bytes>`
+			)
+			.join('\n');
+	}
+	return Object.entries(body)
+		.map(([name, value]) => `${name}=${value}`)
+		.join('\n');
+}
+
+class NetworkState {
+	entries = $state<NetworkEntry[]>([]); // Oldest first
+	private nextId = 1;
+
+	/**
+	 * Record a request as it starts; returns its id for finish()
+	 */
+	start(
+		initiator: NetworkInitiator,
+		payload: ExecuteRequestPayload,
+		redirectedFrom?: number
+	): number {
+		const id = this.nextId++;
+		const entry: NetworkEntry = {
+			id,
+			initiator,
+			method: payload.method ?? 'GET',
+			path: payload.path ?? '/',
+			startedAt: Date.now(),
+			requestHeaders: Object.entries(payload.headers ?? {}),
+			requestBody: describeBody(payload.body),
+			cookiesSent: payload.cookies ?? [],
+			cookiesSet: [],
+			responseHeaders: [],
+			redirectedFrom,
+			timings: {},
+			queries: []
+		};
+		this.entries = [
+			...this.entries.map((existing) =>
+				existing.id === redirectedFrom ? { ...existing, redirectedTo: id } : existing
+			),
+			entry
+		].slice(-NETWORK_HISTORY_LIMIT);
+		return id;
+	}
+
+	/**
+	 * Fill in the response of a recorded request
+	 */
+	finish(id: number, result: ExecutionResult) {
+		const responseBody =
+			result.body ??
+			(result.html !== undefined ? new TextEncoder().encode(result.html) : undefined);
+		this.update(id, (entry) => ({
+			...entry,
+			duration: Date.now() - entry.startedAt,
+			status: result.status,
+			error: result.status ? undefined : result.error,
+			requestHeaders: result.requestHeaders ?? entry.requestHeaders,
+			cookiesSet: result.cookies ?? [],
+			responseHeaders: result.headers ?? [],
+			contentType: result.contentType,
+			responseBody,
+			timings: result.timings ?? {},
+			queries: result.queries ?? [],
+			profile: result.profile
+		}));
+	}
+
+	/**
+	 * End a recorded request that got no response
+	 */
+	fail(id: number, error: string) {
+		this.update(id, (entry) => ({ ...entry, duration: Date.now() - entry.startedAt, error }));
+	}
+
+	clear() {
+		this.entries = [];
+	}
+
+	private update(id: number, change: (entry: NetworkEntry) => NetworkEntry) {
+		this.entries = this.entries.map((entry) => (entry.id === id ? change(entry) : entry));
+	}
+}
+
+export const networkState = new NetworkState();
@@ -3,6 +3,7 @@
  * Handles debounced hash updates and share status
  */
 
+import type { ProjectData } from '$lib/types';
 import { generateShareableUrl, parseShareableUrl } from '$lib/utils/share';
 
 class ShareState {
@@ -28,10 +29,16 @@ class ShareState {
 	/**
 	 * Generate and return shareable URL
 	 */
-	async generateUrl(projectName: string, files: Record<string, string>): Promise<string> {
+	async generateUrl(
+		projectName: string,
+		files: Record<string, string>,
+		runtime?: ProjectData['runtime'],
+		asgi?: boolean,
+		id?: string
+	): Promise<string> {
 		this.isGeneratingShareLink = true;
 		try {
-			const url = await generateShareableUrl(projectName, files);
+			const url = await generateShareableUrl(projectName, files, runtime, asgi, id);
 			this.lastGeneratedUrl = url;
 			return url;
 		} finally {
@@ -76,7 +83,7 @@ class ShareState {
 	 * Load project from URL hash
 	 * Returns null if no hash or invalid hash
 	 */
-	async loadFromHash(): Promise<{ name: string; files: Record<string, string> } | null> {
+	async loadFromHash(): Promise<ProjectData | null> {
 		const hash = window.location.hash;
 
 		if (!hash || hash === '#') {
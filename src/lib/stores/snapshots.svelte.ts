@@ -0,0 +1,25 @@
+import type { SnapshotInfo } from '$lib/types';
+
+// Cached worker runtimes, listed by the active worker for the settings panel
+class SnapshotsState {
+	snapshots = $state<SnapshotInfo[]>([]); // Most recently used first
+	budget = $state(0); // Bytes all snapshots may use together
+	isLoading = $state(false);
+	error = $state<string | null>(null);
+
+	setSnapshots(snapshots: SnapshotInfo[], budget: number) {
+		this.snapshots = snapshots;
+		this.budget = budget;
+		this.error = null;
+	}
+
+	setError(message: string) {
+		this.error = message;
+	}
+
+	get totalSize(): number {
+		return this.snapshots.reduce((sum, snapshot) => sum + snapshot.size, 0);
+	}
+}
+
+export const snapshotsState = new SnapshotsState();
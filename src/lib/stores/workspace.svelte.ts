@@ -1,4 +1,5 @@
-import type { FileNode } from '$lib/types';
+import type { FileNode, ProjectData, RuntimeVersions } from '$lib/types';
+import { DEFAULT_RUNTIME_VERSIONS, normalizeRuntimeVersions } from '$lib/runtime-config';
 
 // Django starter template
 const defaultDjangoProject: Record<string, string> = {
@@ -443,12 +444,29 @@ urlpatterns = [
 `
 };
 
+// Id of the starter project in this browser, created once; shared links carry it
+const PROJECT_ID_KEY = 'django-playground-project-id';
+
+function getStarterProjectId(): string {
+	if (typeof localStorage === 'undefined') return crypto.randomUUID();
+	let id = localStorage.getItem(PROJECT_ID_KEY);
+	if (!id) {
+		id = crypto.randomUUID();
+		localStorage.setItem(PROJECT_ID_KEY, id);
+	}
+	return id;
+}
+
 // Workspace state management using Svelte 5 runes
 class WorkspaceState {
 	files = $state<Record<string, string>>(defaultDjangoProject);
 	currentFile = $state<string>('myapp/views.py');
 	projectName = $state<string>('Django Playground');
+	projectId = $state<string>(getStarterProjectId()); // Stable across renames, unlike the name
+	runtimeVersions = $state<RuntimeVersions>({ ...DEFAULT_RUNTIME_VERSIONS });
+	asgi = $state<boolean>(false); // Serve requests through ASGIHandler on the asyncio loop
 	fileReloadTrigger = $state<number>(0); // Increments when files are bulk loaded
+	revealRequest = $state<{ path: string; line: number } | null>(null); // Line the editor scrolls to
 
 	// Derived file tree structure
 	fileTree = $derived.by(() => {
@@ -528,6 +546,14 @@ class WorkspaceState {
 		this.files = { ...this.files, [path]: content };
 	}
 
+	// Open a file in the editor, optionally with the cursor on a line (1-based)
+	openFile(path: string, line?: number) {
+		if (!(path in this.files)) return;
+		this.currentFile = path;
+		// A new object each time, so opening the same line again still scrolls to it
+		this.revealRequest = line ? { path, line } : null;
+	}
+
 	deleteFile(path: string) {
 		const newFiles = { ...this.files };
 		delete newFiles[path];
@@ -550,17 +576,23 @@ class WorkspaceState {
 	}
 
 	// Serialize workspace to JSON for sharing
-	toJSON(): { name: string; files: Record<string, string> } {
+	toJSON(): ProjectData {
 		return {
+			id: this.projectId,
 			name: this.projectName,
-			files: this.getFiles()
+			files: this.getFiles(),
+			runtime: $state.snapshot(this.runtimeVersions),
+			asgi: this.asgi
 		};
 	}
 
 	// Load workspace from JSON (for shared projects)
-	fromJSON(data: { name: string; files: Record<string, string> }) {
+	fromJSON(data: ProjectData) {
+		this.projectId = data.id ?? getStarterProjectId();
 		this.projectName = data.name;
 		this.files = { ...data.files };
+		this.runtimeVersions = normalizeRuntimeVersions(data.runtime);
+		this.asgi = data.asgi ?? false;
 		this.fileReloadTrigger++; // Trigger editor reload for currently open file
 
 		// Set first Python file as current file if current file doesn't exist
@@ -576,6 +608,16 @@ class WorkspaceState {
 	setProjectName(name: string) {
 		this.projectName = name;
 	}
+
+	// Select the Django and Pyodide releases the project runs on
+	setRuntimeVersions(versions: RuntimeVersions) {
+		this.runtimeVersions = { ...versions };
+	}
+
+	// Choose between WSGI and ASGI request handling (takes effect with the next request)
+	setAsgi(asgi: boolean) {
+		this.asgi = asgi;
+	}
 }
 
 export const workspaceState = new WorkspaceState();
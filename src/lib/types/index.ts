@@ -14,8 +14,28 @@ export interface HttpHeaders {
 	[key: string]: string;
 }
 
-export interface HttpCookies {
-	[key: string]: string;
+// Name/value pairs for a request's Cookie header, in the order they are sent
+// (a name can repeat when cookies with different paths match)
+export type HttpCookies = Array<[string, string]>;
+
+// A cookie from a Set-Cookie header, with its attributes resolved against the request
+export interface HttpCookie {
+	name: string;
+	value: string;
+	domain?: string; // Only set when the header had a Domain attribute
+	path: string; // Defaults to the request path's directory
+	expires?: number; // Epoch ms; undefined for session cookies, in the past to delete
+	secure: boolean;
+	httpOnly: boolean;
+	sameSite?: 'Strict' | 'Lax' | 'None';
+}
+
+// Changes needed to bring a worker's virtual filesystem in line with the workspace
+export interface FileChangeSet {
+	added: Record<string, string>;
+	modified: Record<string, string>;
+	deleted: string[];
+	renamed: Array<{ from: string; to: string }>; // Content unchanged, path moved
 }
 
 // Execution types
@@ -23,15 +43,120 @@ export interface ExecutionResult {
 	success: boolean;
 	output: string;
 	error?: string;
+	exception?: PythonException; // The exception behind the error or 500 response, with its frames
 	html?: string;
 	logs: LogEntry[];
-	cookies?: Array<{ name: string; value: string }>; // Cookies to set
+	cookies?: HttpCookie[]; // Cookies set by the response, in header order
 	status?: string; // HTTP status code (e.g., "200 OK", "302 Found")
 	redirectTo?: string; // Location header for redirects
 	isStaticFile?: boolean; // True if this is a static file response
 	requestedPath?: string; // The path that was requested
-	contentType?: string; // Content-Type header for static files
+	contentType?: string; // Content-Type header of the response
+	body?: Uint8Array; // Raw body of responses that are not HTML pages (images, PDFs, downloads...)
+	headers?: Array<[string, string]>; // Every response header, in order
+	requestHeaders?: Array<[string, string]>; // Headers of the request as Django received them
+	streaming?: boolean; // True while chunks of a streaming response are still arriving
 	migrationFiles?: Record<string, string>; // Generated migration files from makemigrations
+	cancelReason?: 'cancelled' | 'timeout'; // Set when the request was stopped before it finished
+	timings?: Record<string, number>; // Per-phase durations in ms measured inside the worker
+	queries?: SqlQuery[]; // SQL run while handling the request, in order
+	profile?: PythonProfile; // cProfile statistics, for requests run with `profile`
+	databaseChanged?: boolean; // The request wrote to the database file
+}
+
+// One SQL query run by a request
+export interface SqlQuery {
+	alias: string; // Database alias from DATABASES
+	sql: string; // With the parameters filled in
+	raw: string; // With placeholders, identical for queries that differ only by parameters
+	params: string[]; // Parameters as shortened reprs
+	many: boolean; // True for executemany()
+	duration: number; // ms
+	location?: { filename: string; lineno: number; name: string } | null; // Workspace line that ran it
+}
+
+// A function seen by the profiler (times in ms)
+export interface ProfileFunction {
+	filename: string; // Relative to the workspace for workspace files; '~' for built-ins
+	lineno: number;
+	name: string;
+	workspace: boolean;
+	calls: number;
+	primitive: number; // Calls that were not recursive
+	own: number; // Time in the function itself
+	cumulative: number; // Time including the functions it called
+}
+
+// A frame of the flame graph: a function called along one call path
+export interface ProfileNode {
+	function: number; // Index into PythonProfile.functions
+	value: number; // ms
+	children: ProfileNode[]; // Largest first
+}
+
+// Where a profiled request spent its time
+export interface PythonProfile {
+	total: number; // ms
+	functions: ProfileFunction[];
+	roots: ProfileNode[]; // Call trees rebuilt from the caller statistics, largest first
+}
+
+// One frame of a Python traceback
+export interface TracebackFrame {
+	filename: string; // Relative to the workspace for workspace files, absolute otherwise
+	lineno: number;
+	name: string; // Function name
+	line: string; // Source of the line, stripped
+	locals: Record<string, string>; // Local variables as shortened reprs
+	workspace: boolean; // True for files of the project, false for Django and libraries
+}
+
+// An exception raised by a view or by the project, frames oldest first
+export interface PythonException {
+	type: string; // Qualified class name (builtins unqualified)
+	message: string;
+	frames: TracebackFrame[];
+	template?: { filename: string; lineno: number } | null; // Where a template error is
+}
+
+// Django and Pyodide releases a project runs on (see runtime-config.ts for the supported ones)
+export interface RuntimeVersions {
+	django: string; // Release series, e.g. "5.2"
+	pyodide: string; // Exact release, e.g. "0.29.0"
+}
+
+// A workspace as stored in share links
+export interface ProjectData {
+	id?: string; // Keys the project's browser-side state, like its cookie jar; missing in older links
+	name: string;
+	files: Record<string, string>;
+	runtime?: RuntimeVersions; // Missing in links created before versions were selectable
+	asgi?: boolean; // Serve requests through ASGIHandler; missing means WSGI
+}
+
+// Durations in ms of each worker boot phase
+export interface BootTimings {
+	// fresh: micropip install, tarball: site-packages snapshot, memory: interpreter memory snapshot
+	source: 'fresh' | 'tarball' | 'memory';
+	pyodideLoad: number; // Includes restoring the heap for memory snapshots
+	binaryPackages: number; // sqlite3 and tzdata
+	snapshotRestore?: number;
+	packageInstall?: number;
+	djangoImport: number;
+	total: number;
+}
+
+// A cached worker runtime, as listed in the settings panel
+export interface SnapshotInfo {
+	key: string;
+	pyodideVersion: string;
+	djangoVersion: string;
+	requirementsHash?: string;
+	size: number; // Bytes, archive plus memory snapshot
+	hasMemory: boolean; // False for tarball-only snapshots
+	createdAt: number;
+	lastUsed: number;
+	current: boolean; // Matches the runtime of the worker that listed it
 }
 
 export interface LogEntry {
@@ -39,44 +164,179 @@ export interface LogEntry {
 	type: 'info' | 'warning' | 'error' | 'success';
 	message: string;
 	category?: 'worker' | 'django'; // 'worker' for internal debug logs, 'django' for user-facing logs
+	// Records of Python's logging module also have the level name (DEBUG...CRITICAL), the
+	// logger name and the line that emitted them
+	level?: string;
+	logger?: string;
+	location?: { filename: string; lineno: number; function: string; workspace: boolean };
 }
 
 // Worker message types
-export interface WorkerRequest {
-	type:
-		| 'init'
-		| 'execute'
-		| 'installPackage'
-		| 'writeFiles'
-		| 'runMigrations'
-		| 'makeMigrations'
-		| 'createSuperuser'
-		| 'getDatabase'
-		| 'setDatabase';
-	payload?: {
-		code?: string;
-		files?: Record<string, string>;
-		package?: string;
-		path?: string;
-		skipFileWrite?: boolean; // For navigation - only execute with new path
-		method?: HttpMethod; // HTTP method for the request
-		headers?: HttpHeaders; // HTTP headers
-		body?: string | Record<string, any>; // Request body (POST data)
-		cookies?: HttpCookies; // Cookies to send with request
-		isStaticFileRequest?: boolean; // True if requesting a static file
-		username?: string;
-		email?: string;
-		password?: string;
+// Bump when the shape of WorkerRequest/WorkerResponse changes so a stale worker
+// bundle is rejected instead of silently misreading messages
+// v2: file syncs, module reloads, heartbeats, snapshot listing, streams, websockets,
+// the snapshot build notice and failed requirements in the ready reply
+export const WORKER_PROTOCOL_VERSION = 2;
+
+// Submitted form fields in document order; repeated names (multi-selects, checkbox lists)
+// appear once per value and file inputs carry the File itself
+export type FormFields = Array<[string, string | File]>;
+
+// Django requests run against files already synced to the worker with 'syncFiles'
+export interface ExecuteRequestPayload {
+	code?: string; // Plain Python to run instead of a Django request
+	path?: string;
+	method?: HttpMethod; // HTTP method for the request
+	headers?: HttpHeaders; // HTTP headers
+	body?: string | Record<string, any> | FormFields; // Request body (POST data)
+	cookies?: HttpCookies; // Cookies to send with request
+	isStaticFileRequest?: boolean; // True if requesting a static file
+	streamId?: string; // Report streaming responses as 'stream' messages tagged with this id
+	asgi?: boolean; // Serve through Django's ASGIHandler instead of WSGIHandler
+	profile?: boolean; // Run the handler under cProfile and return the statistics
+}
+
+// Part of a streaming response, posted while the view is still producing it
+// The first message has the status and headers, the following ones a chunk of the body
+export interface StreamEvent {
+	streamId: string;
+	status?: string;
+	headers?: Array<[string, string]>;
+	chunk?: Uint8Array;
+}
+
+// Stream of an EventSource in the preview, as forwarded to the iframe's shim
+export type EventSourceMessage =
+	| { type: 'eventSourceOpen'; status: string; contentType: string }
+	| { type: 'eventSourceChunk'; chunk: Uint8Array }
+	| { type: 'eventSourceEnd' };
+
+// Client side of a WebSocket in the preview, relayed to the project's ASGI application
+export type WebSocketRequestPayload =
+	| {
+			action: 'connect';
+			connectionId: string;
+			path: string;
+			protocols?: string[];
+			cookies?: HttpCookies; // Sent in the handshake's Cookie header
+	  }
+	| { action: 'send'; connectionId: string; text?: string; bytes?: Uint8Array }
+	| { action: 'close'; connectionId: string; code?: number };
+
+// What the ASGI application did with a connection, posted as it happens
+export interface WebSocketEvent {
+	connectionId: string;
+	type: 'accept' | 'send' | 'close';
+	subprotocol?: string; // accept
+	text?: string; // send
+	bytes?: Uint8Array; // send
+	code?: number; // close
+	reason?: string; // close
+}
+
+// WebSocket frames between the preview's shim and the page
+export type WebSocketMessage =
+	| { type: 'webSocketAccept'; protocol: string }
+	| { type: 'webSocketMessage'; text?: string; bytes?: Uint8Array }
+	| { type: 'webSocketClose'; code: number; reason: string };
+
+// Payload carried by each request type
+export interface WorkerRequestPayloads {
+	init: {
 		isFirstLoad?: boolean; // True if this is the first load of the session
-		dbData?: Uint8Array; // Database file data for transfer
+		interruptBuffer?: Uint8Array; // SharedArrayBuffer-backed; writing 2 raises KeyboardInterrupt
+		requirements?: string[]; // requirements.txt specifiers to install with micropip
+		versions?: RuntimeVersions;
+	};
+	execute: ExecuteRequestPayload;
+	websocket: WebSocketRequestPayload;
+	installPackage: { package: string };
+	syncFiles: { changes: FileChangeSet };
+	reloadModules: { paths: string[] }; // Workspace paths already synced, to reload in place
+	runMigrations: undefined;
+	makeMigrations: undefined;
+	createSuperuser: {
+		username: string;
+		email: string;
+		password: string;
+	};
+	getDatabase: undefined;
+	setDatabase: { dbData: Uint8Array }; // Database file data for transfer
+	ping: undefined; // Heartbeat
+	listSnapshots: undefined;
+	deleteSnapshots: { key?: string }; // Without a key every snapshot is deleted
+}
+
+export type WorkerRequestType = keyof WorkerRequestPayloads;
+
+// Every request carries the protocol version and an id that the worker echoes back
+export type WorkerRequest = {
+	[K in WorkerRequestType]: {
+		id: number;
+		version: number;
+		type: K;
+		payload: WorkerRequestPayloads[K];
 	};
+}[WorkerRequestType];
+
+export type WorkerResponseMessage =
+	// buildingSnapshot: the worker builds the runtime snapshot next, without answering meanwhile
+	// failedRequirements: requirements.txt packages that did not install; the worker runs without them
+	| {
+			type: 'ready';
+			payload: {
+				success: boolean;
+				timings?: BootTimings;
+				buildingSnapshot?: boolean;
+				failedRequirements?: string[];
+			};
+	  }
+	| { type: 'snapshotBuilt'; payload: { success: boolean } } // Sent once that build settles
+	| { type: 'result'; payload: ExecutionResult }
+	| { type: 'error'; payload: { message: string } }
+	| { type: 'log'; payload: LogEntry }
+	| { type: 'stream'; payload: StreamEvent }
+	| { type: 'websocket'; payload: WebSocketEvent }
+	| { type: 'database'; payload: { dbData: Uint8Array | null } }
+	| { type: 'pong'; payload: WorkerHealth }
+	| { type: 'snapshots'; payload: { snapshots: SnapshotInfo[]; budget: number } };
+
+// Heartbeat reply
+export interface WorkerHealth {
+	healthy: boolean; // False once Pyodide has hit a fatal error
+	heapBytes: number | null; // Size of the WebAssembly heap (null if unknown)
 }
 
-export interface WorkerResponse {
-	type: 'ready' | 'result' | 'error' | 'log' | 'database';
-	payload?: ExecutionResult | LogEntry | { message: string } | { success: boolean } | { dbData: Uint8Array | null };
+// Responses to a request carry its id; unsolicited messages (logs, streams, websockets) have none
+export type WorkerResponse = WorkerResponseMessage & {
+	id?: number;
+	version: number;
+};
+
+// Which response type settles each request type ('error' rejects any of them)
+export interface WorkerReplyTypes {
+	init: 'ready';
+	execute: 'result';
+	websocket: 'result';
+	installPackage: 'result';
+	syncFiles: 'result';
+	reloadModules: 'result';
+	runMigrations: 'result';
+	makeMigrations: 'result';
+	createSuperuser: 'result';
+	getDatabase: 'database';
+	setDatabase: 'result';
+	ping: 'pong';
+	listSnapshots: 'snapshots';
+	deleteSnapshots: 'snapshots'; // The remaining snapshots
 }
 
+type WorkerResponsePayloads = {
+	[M in WorkerResponseMessage as M['type']]: M['payload'];
+};
+
+export type WorkerReply<K extends WorkerRequestType> = WorkerResponsePayloads[WorkerReplyTypes[K]];
+
 // Django project structure
 export interface DjangoProject {
 	name: string;
@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { HttpCookie } from '$lib/types';
+import { CookieStorage } from './cookie-storage.svelte';
+
+// localStorage backed by a plain record, as node has none
+function memoryStorage(items: Record<string, string> = {}) {
+	return {
+		items,
+		getItem: (key: string) => items[key] ?? null,
+		setItem: (key: string, value: string) => {
+			items[key] = value;
+		},
+		removeItem: (key: string) => {
+			delete items[key];
+		}
+	};
+}
+
+function cookie(name: string, value: string, attributes: Partial<HttpCookie> = {}): HttpCookie {
+	return { name, value, path: '/', secure: false, httpOnly: false, ...attributes };
+}
+
+let storage: ReturnType<typeof memoryStorage>;
+
+beforeEach(() => {
+	storage = memoryStorage();
+	vi.stubGlobal('localStorage', storage);
+	vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+});
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+	vi.useRealTimers();
+});
+
+function openJar(scope = 'project'): CookieStorage {
+	const jar = new CookieStorage();
+	jar.setScope(scope);
+	return jar;
+}
+
+describe('CookieStorage', () => {
+	it('sends cookies whose path matches the request path', () => {
+		const jar = openJar();
+		jar.store(cookie('root', '1'));
+		jar.store(cookie('accounts', '2', { path: '/accounts' }));
+		jar.store(cookie('slash', '3', { path: '/api/' }));
+
+		expect(jar.getAll('/')).toEqual([['root', '1']]);
+		expect(jar.getAll('/accounts/login?next=/')).toEqual([
+			['accounts', '2'],
+			['root', '1']
+		]);
+		expect(jar.getAll('/accountsettings')).toEqual([['root', '1']]);
+		expect(jar.getAll('/api/items')).toEqual([
+			['slash', '3'],
+			['root', '1']
+		]);
+	});
+
+	it('sends cookies with longer paths first, then older ones first', () => {
+		const jar = openJar();
+		jar.store(cookie('b', '1'));
+		jar.store(cookie('a', '2'));
+		jar.store(cookie('c', '3', { path: '/app' }));
+
+		expect(jar.getAll('/app').map(([name]) => name)).toEqual(['c', 'b', 'a']);
+	});
+
+	it('replaces a cookie with the same name, domain and path in place', () => {
+		const jar = openJar();
+		jar.store(cookie('a', '1'));
+		jar.store(cookie('b', '2'));
+		jar.store(cookie('a', '3'));
+		jar.store(cookie('a', '4', { path: '/app' }));
+
+		expect(jar.getAll('/app')).toEqual([
+			['a', '4'],
+			['a', '3'],
+			['b', '2']
+		]);
+	});
+
+	it('deletes a cookie when an expired one is stored', () => {
+		const jar = openJar();
+		jar.store(cookie('sessionid', 'abc'));
+		jar.store(cookie('sessionid', '', { expires: 0 }));
+
+		expect(jar.cookies).toEqual([]);
+		expect(jar.getAll('/')).toEqual([]);
+	});
+
+	it('stops sending cookies once they expire', () => {
+		const jar = openJar();
+		jar.store(cookie('a', '1', { expires: Date.now() + 1000 }));
+
+		expect(jar.getAll('/')).toEqual([['a', '1']]);
+		vi.advanceTimersByTime(1000);
+		expect(jar.getAll('/')).toEqual([]);
+	});
+
+	it('keeps session cookies across reloads', () => {
+		openJar().store(cookie('sessionid', 'abc'));
+
+		expect(openJar().getAll('/')).toEqual([['sessionid', 'abc']]);
+	});
+
+	it('keeps a jar per project', () => {
+		const jar = openJar('first');
+		jar.store(cookie('a', '1'));
+
+		jar.setScope('second');
+		expect(jar.cookies).toEqual([]);
+		jar.store(cookie('b', '2'));
+
+		jar.setScope('first');
+		expect(jar.getAll('/')).toEqual([['a', '1']]);
+	});
+
+	it('moves cookies saved before jars were per project to the first project opened', () => {
+		storage.items['django-repl-cookies'] = JSON.stringify([['sessionid', 'abc']]);
+
+		const jar = openJar('first');
+		expect(jar.cookies).toEqual([cookie('sessionid', 'abc')]);
+		expect(storage.items).not.toHaveProperty('django-repl-cookies');
+
+		jar.setScope('second');
+		expect(jar.cookies).toEqual([]);
+	});
+
+	it('replaces an edited cookie, dropping any it would collide with', () => {
+		const jar = openJar();
+		const edited = cookie('a', '1');
+		jar.store(edited);
+		jar.store(cookie('b', '2'));
+
+		jar.replace(edited, cookie('b', '3'));
+		expect(jar.getAll('/')).toEqual([['b', '3']]);
+	});
+});
@@ -1,47 +1,120 @@
-import type { HttpCookies } from '$lib/types';
+import type { HttpCookie, HttpCookies } from '$lib/types';
+
+// Projects before cookies were scoped kept one flat name/value list under this key
+const LEGACY_STORAGE_KEY = 'django-repl-cookies';
+
+/**
+ * Whether a cookie path applies to a request path (RFC 6265 5.1.4)
+ */
+function pathMatches(cookiePath: string, requestPath: string): boolean {
+	if (requestPath === cookiePath) return true;
+	return (
+		requestPath.startsWith(cookiePath) &&
+		(cookiePath.endsWith('/') || requestPath[cookiePath.length] === '/')
+	);
+}
+
+function isExpired(cookie: HttpCookie, now: number): boolean {
+	return cookie.expires !== undefined && cookie.expires <= now;
+}
+
+// Cookies are identified by name, domain and path; the same name can exist at several paths
+function isSameCookie(a: Pick<HttpCookie, 'name' | 'domain' | 'path'>, b: HttpCookie): boolean {
+	return a.name === b.name && (a.domain ?? '') === (b.domain ?? '') && a.path === b.path;
+}
 
 /**
- * Simple cookie storage for managing cookies across requests
+ * Cookie jar for the requests a project makes, kept in localStorage per project
+ * Cookies are kept in creation order so requests send them the way browsers do: longer
+ * paths first, then older cookies first. Session cookies are kept across reloads, like
+ * a browser restoring its session
  */
 export class CookieStorage {
-	private cookies = $state<Map<string, string>>(new Map());
-	private storageKey = 'django-repl-cookies';
+	cookies = $state<HttpCookie[]>([]);
+	private scope: string | null = null;
 
-	constructor() {
+	/**
+	 * Switch to the jar of another project
+	 */
+	setScope(scope: string): void {
+		if (scope === this.scope) return;
+		this.scope = scope;
 		this.load();
 	}
 
-	set(name: string, value: string): void {
-		this.cookies.set(name, value);
+	/**
+	 * Store a cookie from a response, replacing the one with the same name, domain and path
+	 * A cookie that is already expired deletes the stored one (Max-Age=0, delete_cookie)
+	 */
+	store(cookie: HttpCookie): void {
+		const now = Date.now();
+		const cookies = this.cookies.filter((existing) => !isExpired(existing, now));
+		const index = cookies.findIndex((existing) => isSameCookie(cookie, existing));
+
+		if (isExpired(cookie, now)) {
+			if (index !== -1) cookies.splice(index, 1);
+		} else if (index !== -1) {
+			// A replaced cookie keeps its place, as it keeps its creation time
+			cookies[index] = cookie;
+		} else {
+			cookies.push(cookie);
+		}
+		this.cookies = cookies;
 		this.save();
 	}
 
-	get(name: string): string | undefined {
-		return this.cookies.get(name);
+	/**
+	 * Replace a stored cookie with an edited copy (its name, path or domain may change)
+	 */
+	replace(previous: HttpCookie, cookie: HttpCookie): void {
+		// Drop any other cookie the edit would collide with
+		const cookies = this.cookies.filter(
+			(existing) => isSameCookie(previous, existing) || !isSameCookie(cookie, existing)
+		);
+		const index = cookies.findIndex((existing) => isSameCookie(previous, existing));
+		if (index === -1) {
+			cookies.push(cookie);
+		} else {
+			cookies[index] = cookie;
+		}
+		this.cookies = cookies;
+		this.save();
 	}
 
-	delete(name: string): void {
-		this.cookies.delete(name);
+	delete(cookie: Pick<HttpCookie, 'name' | 'domain' | 'path'>): void {
+		this.cookies = this.cookies.filter((existing) => !isSameCookie(cookie, existing));
 		this.save();
 	}
 
-	getAll(): HttpCookies {
-		const result: HttpCookies = {};
-		for (const [name, value] of this.cookies.entries()) {
-			result[name] = value;
-		}
-		return result;
+	/**
+	 * Cookies to send with a request to the given path, most specific path first
+	 * The playground is served from localhost, which browsers treat as a secure context,
+	 * so Secure cookies are sent too
+	 */
+	getAll(requestPath: string): HttpCookies {
+		const now = Date.now();
+		const path = requestPath.split('?')[0] || '/';
+		return this.cookies
+			.filter((cookie) => !isExpired(cookie, now) && pathMatches(cookie.path, path))
+			.sort((a, b) => b.path.length - a.path.length)
+			.map((cookie) => [cookie.name, cookie.value]);
 	}
 
 	clear(): void {
-		this.cookies.clear();
+		this.cookies = [];
 		this.save();
 	}
 
+	private get storageKey(): string {
+		return `${LEGACY_STORAGE_KEY}:${this.scope}`;
+	}
+
 	private save(): void {
-		if (typeof localStorage === 'undefined') return;
+		if (typeof localStorage === 'undefined' || this.scope === null) return;
 		try {
-			const data = Array.from(this.cookies.entries());
+			// Session cookies are written too; expired ones are dropped
+			const now = Date.now();
+			const data = this.cookies.filter((cookie) => !isExpired(cookie, now));
 			localStorage.setItem(this.storageKey, JSON.stringify(data));
 		} catch (e) {
 			console.warn('Failed to save cookies to localStorage:', e);
@@ -49,12 +122,24 @@ export class CookieStorage {
 	}
 
 	private load(): void {
+		this.cookies = [];
 		if (typeof localStorage === 'undefined') return;
 		try {
 			const data = localStorage.getItem(this.storageKey);
 			if (data) {
-				const parsed = JSON.parse(data) as Array<[string, string]>;
-				this.cookies = new Map(parsed);
+				const now = Date.now();
+				this.cookies = (JSON.parse(data) as HttpCookie[]).filter(
+					(cookie) => !isExpired(cookie, now)
+				);
+			}
+
+			// Cookies saved before jars were per project go to the first project opened
+			const legacy = localStorage.getItem(LEGACY_STORAGE_KEY);
+			if (legacy) {
+				localStorage.removeItem(LEGACY_STORAGE_KEY);
+				for (const [name, value] of JSON.parse(legacy) as Array<[string, string]>) {
+					this.store({ name, value, path: '/', secure: false, httpOnly: false });
+				}
 			}
 		} catch (e) {
 			console.warn('Failed to load cookies from localStorage:', e);
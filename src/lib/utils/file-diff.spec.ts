@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { countChanges, diffFiles, isEmptyChangeSet } from './file-diff';
+
+describe('diffFiles', () => {
+	it('reports added, modified and deleted files', () => {
+		const changes = diffFiles(
+			{ 'a.py': 'a = 1', 'b.py': 'b = 1', 'c.py': 'c = 1' },
+			{ 'a.py': 'a = 1', 'b.py': 'b = 2', 'd.py': 'd = 1' }
+		);
+
+		expect(changes).toEqual({
+			added: { 'd.py': 'd = 1' },
+			modified: { 'b.py': 'b = 2' },
+			deleted: ['c.py'],
+			renamed: []
+		});
+	});
+
+	it('pairs a deleted file with an added file of the same content as a rename', () => {
+		const changes = diffFiles(
+			{ 'app/views.py': 'def index(request): ...' },
+			{ 'app/pages.py': 'def index(request): ...' }
+		);
+
+		expect(changes.renamed).toEqual([{ from: 'app/views.py', to: 'app/pages.py' }]);
+		expect(changes.added).toEqual({});
+		expect(changes.deleted).toEqual([]);
+	});
+
+	it('does not pair empty files', () => {
+		const changes = diffFiles({ 'old/__init__.py': '' }, { 'new/__init__.py': '' });
+
+		expect(changes.added).toEqual({ 'new/__init__.py': '' });
+		expect(changes.deleted).toEqual(['old/__init__.py']);
+		expect(changes.renamed).toEqual([]);
+	});
+
+	it('pairs each added file with one deleted file only', () => {
+		const changes = diffFiles({ 'a.txt': 'same', 'b.txt': 'same' }, { 'c.txt': 'same' });
+
+		expect(changes.renamed).toEqual([{ from: 'a.txt', to: 'c.txt' }]);
+		expect(changes.deleted).toEqual(['b.txt']);
+	});
+});
+
+describe('isEmptyChangeSet', () => {
+	it('is true only when nothing changed', () => {
+		const files = { 'a.py': 'a = 1' };
+
+		expect(isEmptyChangeSet(diffFiles(files, { ...files }))).toBe(true);
+		expect(isEmptyChangeSet(diffFiles(files, { 'a.py': 'a = 2' }))).toBe(false);
+		expect(isEmptyChangeSet(diffFiles(files, {}))).toBe(false);
+	});
+});
+
+describe('countChanges', () => {
+	it('counts every touched file once', () => {
+		const changes = diffFiles(
+			{ 'a.py': 'a', 'b.py': 'b', 'c.py': 'c' },
+			{ 'a.py': 'a2', 'd.py': 'c', 'e.py': 'e' }
+		);
+
+		// a.py modified, c.py renamed to d.py, e.py added, b.py deleted
+		expect(countChanges(changes)).toBe(4);
+	});
+});
@@ -0,0 +1,69 @@
+/**
+ * File change sets for syncing the workspace to a worker's virtual filesystem
+ * Only what changed since the worker's last sync is sent over postMessage
+ */
+
+import type { FileChangeSet } from '$lib/types';
+
+/**
+ * Compute the changes that turn `previous` into `current`
+ * A deleted file whose exact content reappears under a new path is reported as a rename
+ */
+export function diffFiles(
+	previous: Record<string, string>,
+	current: Record<string, string>
+): FileChangeSet {
+	const changes: FileChangeSet = { added: {}, modified: {}, deleted: [], renamed: [] };
+
+	for (const [path, content] of Object.entries(current)) {
+		if (!(path in previous)) {
+			changes.added[path] = content;
+		} else if (previous[path] !== content) {
+			changes.modified[path] = content;
+		}
+	}
+
+	const deleted = Object.keys(previous).filter((path) => !(path in current));
+
+	// Pair deleted files with added files of identical content
+	// Empty files (__init__.py, .gitkeep) are too ambiguous to pair
+	for (const from of deleted) {
+		const content = previous[from];
+		const to = content
+			? Object.keys(changes.added).find((path) => changes.added[path] === content)
+			: undefined;
+
+		if (to) {
+			changes.renamed.push({ from, to });
+			delete changes.added[to];
+		} else {
+			changes.deleted.push(from);
+		}
+	}
+
+	return changes;
+}
+
+/**
+ * True if applying the change set would be a no-op
+ */
+export function isEmptyChangeSet(changes: FileChangeSet): boolean {
+	return (
+		Object.keys(changes.added).length === 0 &&
+		Object.keys(changes.modified).length === 0 &&
+		changes.deleted.length === 0 &&
+		changes.renamed.length === 0
+	);
+}
+
+/**
+ * Count the files touched by a change set
+ */
+export function countChanges(changes: FileChangeSet): number {
+	return (
+		Object.keys(changes.added).length +
+		Object.keys(changes.modified).length +
+		changes.deleted.length +
+		changes.renamed.length
+	);
+}
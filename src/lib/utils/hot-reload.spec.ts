@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import type { FileChangeSet } from '$lib/types';
+import { planRefresh } from './hot-reload';
+
+function changeSet(changes: Partial<FileChangeSet>): FileChangeSet {
+	return { added: {}, modified: {}, deleted: [], renamed: [], ...changes };
+}
+
+describe('planRefresh', () => {
+	it('hot reloads views, urls, forms and admin modules', () => {
+		const plan = planRefresh(
+			changeSet({
+				modified: {
+					'myapp/views.py': '',
+					'myapp/urls.py': '',
+					'myapp/forms.py': '',
+					'myapp/admin.py': ''
+				}
+			})
+		);
+
+		expect(plan).toEqual({
+			mode: 'hot',
+			paths: ['myapp/views.py', 'myapp/urls.py', 'myapp/forms.py', 'myapp/admin.py']
+		});
+	});
+
+	it('hot reloads modules inside a views package', () => {
+		const plan = planRefresh(
+			changeSet({
+				added: { 'myapp/views/api.py': '' },
+				modified: { 'myapp/views/__init__.py': '' }
+			})
+		);
+
+		expect(plan).toEqual({
+			mode: 'hot',
+			paths: ['myapp/views/api.py', 'myapp/views/__init__.py']
+		});
+	});
+
+	it('hot reloads templates and static files', () => {
+		const plan = planRefresh(
+			changeSet({ modified: { 'myapp/templates/index.html': '', 'static/site.css': '' } })
+		);
+
+		expect(plan.mode).toBe('hot');
+	});
+
+	it('re-renders without reloading when nothing changed', () => {
+		expect(planRefresh(changeSet({}))).toEqual({ mode: 'hot', paths: [] });
+	});
+
+	it('needs a full swap for settings and models', () => {
+		expect(planRefresh(changeSet({ modified: { 'myproject/settings.py': '' } }))).toEqual({
+			mode: 'full',
+			reason: 'myproject/settings.py changed settings'
+		});
+		expect(planRefresh(changeSet({ modified: { 'myapp/models/__init__.py': '' } }))).toEqual({
+			mode: 'full',
+			reason: 'myapp/models/__init__.py changed models'
+		});
+	});
+
+	it('needs a full swap for other Python modules and unknown files', () => {
+		expect(planRefresh(changeSet({ modified: { 'myapp/utils.py': '' } }))).toEqual({
+			mode: 'full',
+			reason: 'myapp/utils.py is not a view, url, form or admin module'
+		});
+		expect(planRefresh(changeSet({ added: { 'data.json': '' } }))).toEqual({
+			mode: 'full',
+			reason: 'data.json is not a template or static file'
+		});
+	});
+
+	it('needs a full swap when requirements.txt changes', () => {
+		expect(planRefresh(changeSet({ modified: { 'requirements.txt': 'requests' } }))).toEqual({
+			mode: 'full',
+			reason: 'requirements.txt changed'
+		});
+	});
+
+	it('needs a full swap when files are deleted or renamed', () => {
+		expect(planRefresh(changeSet({ deleted: ['myapp/views.py'] })).mode).toBe('full');
+		expect(
+			planRefresh(changeSet({ renamed: [{ from: 'myapp/views.py', to: 'myapp/pages.py' }] })).mode
+		).toBe('full');
+	});
+
+	it('needs a full swap if any changed file does', () => {
+		const plan = planRefresh(
+			changeSet({ modified: { 'myapp/views.py': '', 'myapp/models.py': '' } })
+		);
+
+		expect(plan).toEqual({ mode: 'full', reason: 'myapp/models.py changed models' });
+	});
+});
@@ -0,0 +1,70 @@
+/**
+ * Decide whether a refresh can reload modules in the running interpreter
+ * or needs a full swap to a fresh worker
+ */
+
+import type { FileChangeSet } from '$lib/types';
+import { REQUIREMENTS_FILE } from './requirements';
+
+export type RefreshPlan =
+	| { mode: 'hot'; paths: string[] } // Reload these files in place
+	| { mode: 'full'; reason: string }; // Swap to a fresh worker
+
+// Python modules that are safe to re-execute: nothing holds on to their state at startup
+const RELOADABLE_MODULES = new Set(['views', 'urls', 'forms', 'admin']);
+
+// Non-Python files Django reads on every request (once its caches are cleared)
+const RELOADABLE_EXTENSIONS = ['.html', '.txt', '.css', '.js'];
+
+/**
+ * Why a changed file needs a full swap, or null if it can be hot reloaded
+ */
+function fullSwapReason(path: string): string | null {
+	const parts = path.split('/');
+	const filename = parts[parts.length - 1];
+
+	// Packages are installed while a worker boots
+	if (path === REQUIREMENTS_FILE) {
+		return 'requirements.txt changed';
+	}
+
+	if (!filename.endsWith('.py')) {
+		return RELOADABLE_EXTENSIONS.some((ext) => filename.endsWith(ext))
+			? null
+			: `${path} is not a template or static file`;
+	}
+
+	// views.py or a views/ package
+	const moduleName = filename === '__init__.py' ? parts[parts.length - 2] : filename.slice(0, -3);
+	const inPackage = parts.slice(0, -1).some((part) => RELOADABLE_MODULES.has(part));
+	if (RELOADABLE_MODULES.has(moduleName) || inPackage) {
+		return null;
+	}
+
+	if (moduleName === 'settings' || parts.includes('settings')) {
+		return `${path} changed settings`;
+	}
+	if (moduleName === 'models' || parts.includes('models')) {
+		return `${path} changed models`;
+	}
+	return `${path} is not a view, url, form or admin module`;
+}
+
+/**
+ * Plan a refresh from the files changed since the worker's last sync
+ */
+export function planRefresh(changes: FileChangeSet): RefreshPlan {
+	if (changes.deleted.length > 0 || changes.renamed.length > 0) {
+		return { mode: 'full', reason: 'files were deleted or renamed' };
+	}
+
+	const paths = [...Object.keys(changes.added), ...Object.keys(changes.modified)];
+	for (const path of paths) {
+		const reason = fullSwapReason(path);
+		if (reason) {
+			return { mode: 'full', reason };
+		}
+	}
+
+	return { mode: 'hot', paths };
+}
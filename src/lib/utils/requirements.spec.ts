@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { getRequirements, parseRequirements } from './requirements';
+
+describe('parseRequirements', () => {
+	it('reads one specifier per line', () => {
+		expect(parseRequirements('requests==2.32.3\nmarkdown>=3.5\n')).toEqual({
+			requirements: ['requests==2.32.3', 'markdown>=3.5'],
+			skipped: []
+		});
+	});
+
+	it('drops comments and blank lines', () => {
+		const content = '# Project packages\n\nrequests  # HTTP client\n   \nmarkdown\n';
+
+		expect(parseRequirements(content).requirements).toEqual(['requests', 'markdown']);
+	});
+
+	it('keeps a # that does not start a comment', () => {
+		expect(parseRequirements('pkg @ https://example.com/pkg.whl#sha256=abc').requirements).toEqual([
+			'pkg @ https://example.com/pkg.whl#sha256=abc'
+		]);
+	});
+
+	it('skips pip options', () => {
+		const content = '-r base.txt\n--index-url https://example.com/simple\n-e .\nrequests';
+
+		expect(parseRequirements(content)).toEqual({
+			requirements: ['requests'],
+			skipped: ['-r base.txt', '--index-url https://example.com/simple', '-e .']
+		});
+	});
+
+	it('lists a repeated specifier once', () => {
+		expect(parseRequirements('requests\r\nrequests\n').requirements).toEqual(['requests']);
+	});
+});
+
+describe('getRequirements', () => {
+	it('reads requirements.txt from the workspace files', () => {
+		expect(getRequirements({ 'requirements.txt': 'requests' }).requirements).toEqual(['requests']);
+	});
+
+	it('has no requirements without requirements.txt', () => {
+		expect(getRequirements({ 'manage.py': '' })).toEqual({ requirements: [], skipped: [] });
+	});
+});
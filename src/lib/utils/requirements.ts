@@ -0,0 +1,37 @@
+/**
+ * Read the workspace's requirements.txt into micropip-installable specifiers
+ */
+
+export const REQUIREMENTS_FILE = 'requirements.txt';
+
+export interface ParsedRequirements {
+	requirements: string[]; // e.g. "requests==2.32.3", "markdown>=3.5"
+	skipped: string[]; // pip options micropip cannot honour (-r, -e, --index-url, ...)
+}
+
+export function parseRequirements(content: string): ParsedRequirements {
+	const requirements: string[] = [];
+	const skipped: string[] = [];
+
+	for (const rawLine of content.split('\n')) {
+		// Comments start at " #" or at the beginning of the line
+		const line = rawLine.replace(/(^|\s)#.*$/, '').trim();
+		if (!line) continue;
+
+		if (line.startsWith('-')) {
+			skipped.push(line);
+		} else if (!requirements.includes(line)) {
+			requirements.push(line);
+		}
+	}
+
+	return { requirements, skipped };
+}
+
+/**
+ * Specifiers from the workspace files, or none without a requirements.txt
+ */
+export function getRequirements(files: Record<string, string>): ParsedRequirements {
+	const content = files[REQUIREMENTS_FILE];
+	return content === undefined ? { requirements: [], skipped: [] } : parseRequirements(content);
+}
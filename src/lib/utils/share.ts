@@ -1,3 +1,5 @@
+import type { ProjectData } from '$lib/types';
+
 /**
  * Share utilities for compressing and encoding Django project files
  * Based on Svelte REPL's approach: gzip + base64-URL-safe encoding
@@ -74,9 +76,13 @@ export async function decodeAndDecompress(input: string): Promise<string> {
  */
 export async function generateShareableUrl(
 	projectName: string,
-	files: Record<string, string>
+	files: Record<string, string>,
+	runtime?: ProjectData['runtime'],
+	asgi?: boolean,
+	id?: string
 ): Promise<string> {
-	const data = JSON.stringify({ name: projectName, files });
+	// asgi is left out for WSGI projects, keeping their links as before
+	const data = JSON.stringify({ id, name: projectName, files, runtime, asgi: asgi || undefined });
 	const encoded = await compressAndEncode(data);
 
 	// Return URL with hash
@@ -86,9 +92,7 @@ export async function generateShareableUrl(
 /**
  * Parse shareable URL and extract project data
  */
-export async function parseShareableUrl(
-	hash: string
-): Promise<{ name: string; files: Record<string, string> }> {
+export async function parseShareableUrl(hash: string): Promise<ProjectData> {
 	// Remove leading # if present
 	const encoded = hash.startsWith('#') ? hash.slice(1) : hash;
 
@@ -109,9 +113,25 @@ export async function parseShareableUrl(
 		throw new Error('Invalid share data: missing files');
 	}
 
+	// Links created before projects had ids are identified by their contents
+	if (typeof data.id !== 'string') {
+		data.id = await linkId(encoded);
+	}
+
 	return data;
 }
 
+/**
+ * Derive a stable project id from a link's encoded data
+ */
+async function linkId(encoded: string): Promise<string> {
+	const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(encoded));
+	const hex = Array.from(new Uint8Array(digest).slice(0, 8), (byte) =>
+		byte.toString(16).padStart(2, '0')
+	).join('');
+	return `link-${hex}`;
+}
+
 /**
  * Estimate the URL length for a given project
  * Useful for warning users about long URLs
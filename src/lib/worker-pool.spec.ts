@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+	WORKER_PROTOCOL_VERSION,
+	type ExecuteRequestPayload,
+	type WorkerRequest,
+	type WorkerResponse
+} from './types';
+import { WorkerPool } from './worker-pool';
+
+// Stands in for the python-executor worker: requests are kept, replies are sent by the test
+class FakeWorker extends EventTarget {
+	static instances: FakeWorker[] = [];
+	requests: WorkerRequest[] = [];
+	terminated = false;
+
+	constructor() {
+		super();
+		FakeWorker.instances.push(this);
+	}
+
+	postMessage(request: WorkerRequest) {
+		this.requests.push(request);
+	}
+
+	terminate() {
+		this.terminated = true;
+	}
+
+	reply(response: WorkerResponse) {
+		this.dispatchEvent(new MessageEvent('message', { data: response }));
+	}
+
+	// The request of a type sent last
+	last(type: WorkerRequest['type']): WorkerRequest {
+		return this.requests.filter((request) => request.type === type).pop()!;
+	}
+}
+
+function result(id: number, output: string, version = WORKER_PROTOCOL_VERSION): WorkerResponse {
+	return { id, version, type: 'result', payload: { success: true, output, logs: [] } };
+}
+
+const execute: ExecuteRequestPayload = { path: '/', method: 'GET' };
+
+let pool: WorkerPool;
+let worker: FakeWorker;
+
+beforeEach(async () => {
+	vi.useFakeTimers();
+	vi.stubGlobal('Worker', FakeWorker);
+	FakeWorker.instances = [];
+
+	pool = new WorkerPool(1);
+	const initialized = pool.initialize();
+	worker = FakeWorker.instances[0];
+	const init = worker.last('init');
+	worker.reply({
+		id: init.id,
+		version: WORKER_PROTOCOL_VERSION,
+		type: 'ready',
+		payload: { success: true }
+	});
+	await initialized;
+});
+
+afterEach(() => {
+	pool.terminateAll();
+	vi.unstubAllGlobals();
+	vi.useRealTimers();
+	vi.restoreAllMocks();
+});
+
+describe('WorkerPool.call', () => {
+	it('settles each call with the reply carrying its id', async () => {
+		const first = pool.call('execute', execute);
+		const second = pool.call('execute', execute);
+		const [firstRequest, secondRequest] = worker.requests.slice(-2);
+
+		worker.reply(result(secondRequest.id, 'second'));
+		worker.reply(result(firstRequest.id, 'first'));
+
+		expect((await first).output).toBe('first');
+		expect((await second).output).toBe('second');
+	});
+
+	it('ignores replies from another protocol version', async () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		const onMessage = vi.fn();
+		pool.getWorker('worker-0')!.messageHandler = onMessage;
+		const call = pool.call('execute', execute);
+		const { id } = worker.last('execute');
+
+		worker.reply(result(id, 'old', WORKER_PROTOCOL_VERSION - 1));
+		worker.reply(result(id, 'current'));
+
+		expect((await call).output).toBe('current');
+		expect(warn).toHaveBeenCalledOnce();
+		expect(onMessage).not.toHaveBeenCalled();
+	});
+
+	it('rejects the pending calls of a worker that crashes', async () => {
+		const events = vi.fn();
+		pool.onWorkerEvent = events;
+		const call = pool.call('execute', execute);
+
+		worker.dispatchEvent(Object.assign(new Event('error'), { message: 'out of memory' }));
+
+		await expect(call).rejects.toThrow(
+			'execute on worker-0 aborted: worker crashed: out of memory'
+		);
+		expect(worker.terminated).toBe(true);
+		expect(events).toHaveBeenCalledWith({
+			type: 'crashed',
+			workerId: 'worker-0',
+			reason: 'out of memory',
+			wasActive: true
+		});
+	});
+
+	it('rejects a call the worker does not answer in time', async () => {
+		const call = pool.call('execute', execute, { timeout: 1000 });
+		const { id } = worker.last('execute');
+		const rejected = expect(call).rejects.toThrow('execute on worker-0 timed out after 1000ms');
+
+		vi.advanceTimersByTime(1000);
+		await rejected;
+
+		// The worker is free again, and a late reply settles nothing
+		expect(pool.getWorker('worker-0')?.state).toBe('ready');
+		worker.reply(result(id, 'late'));
+		expect(pool.getWorker('worker-0')?.pendingCalls.size).toBe(0);
+	});
+});
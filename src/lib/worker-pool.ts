@@ -1,26 +1,122 @@
-import type { WorkerRequest, WorkerResponse } from './types';
+import {
+	WORKER_PROTOCOL_VERSION,
+	type BootTimings,
+	type RuntimeVersions,
+	type ExecutionResult,
+	type FileChangeSet,
+	type WorkerReply,
+	type WorkerRequest,
+	type WorkerRequestPayloads,
+	type WorkerRequestType,
+	type WorkerResponse
+} from './types';
+import { DEFAULT_RUNTIME_VERSIONS } from './runtime-config';
+import { countChanges, diffFiles, isEmptyChangeSet } from './utils/file-diff';
+
+export type WorkerState = 'warming' | 'ready' | 'busy' | 'transferring' | 'dead';
+
+// Snapshot of a pooled worker for display
+export interface WorkerInfo {
+	id: string;
+	state: WorkerState;
+	active: boolean; // Serving the preview
+	createdAt: number;
+	heapBytes: number | null; // From the last heartbeat
+	lastHeartbeat: number | null;
+	bootTimings: BootTimings | null; // Set once the worker has warmed up
+}
+
+// One swap of the active worker for a warm one
+export interface SwapRecord {
+	fromId: string | null;
+	toId: string;
+	startedAt: number;
+	duration: number; // ms
+	success: boolean;
+}
+
+const SWAP_HISTORY_LIMIT = 20;
+
+function sameRequirements(a: string[], b: string[]): boolean {
+	return a.length === b.length && a.every((requirement, index) => requirement === b[index]);
+}
+
+export type WorkerPoolEvent =
+	| { type: 'crashed'; workerId: string; reason: string; wasActive: boolean }
+	| { type: 'recycled'; workerId: string; heapBytes: number; wasActive: boolean }
+	| { type: 'recovered'; workerId: string | null } // New active worker (null if recovery failed)
+	| { type: 'installFailed'; workerId: string; requirements: string[] }; // Booted without them
+
+export interface WorkerPoolOptions {
+	heartbeatInterval?: number; // Milliseconds between heartbeats to idle workers
+	heartbeatTimeout?: number; // Milliseconds an idle worker has to answer before it is declared dead
+	memoryLimit?: number; // Heap bytes above which a worker is recycled
+	versions?: RuntimeVersions; // Django and Pyodide releases every worker boots with
+}
 
-export type WorkerState = 'warming' | 'ready' | 'busy' | 'transferring';
+const DEFAULT_OPTIONS: Required<WorkerPoolOptions> = {
+	heartbeatInterval: 5000,
+	heartbeatTimeout: 20000,
+	memoryLimit: 1024 * 1024 * 1024, // 1 GiB
+	versions: DEFAULT_RUNTIME_VERSIONS
+};
+
+interface PendingCall {
+	type: WorkerRequestType;
+	resolve: (payload: unknown) => void;
+	reject: (error: Error) => void;
+	timeout?: ReturnType<typeof setTimeout>;
+}
 
 interface PooledWorker {
 	id: string;
 	worker: Worker;
 	state: WorkerState;
-	messageHandler?: (response: WorkerResponse) => void;
-	eventListener?: (event: MessageEvent<WorkerResponse>) => void;
+	messageHandler?: (response: WorkerResponse) => void; // Receives unsolicited messages (logs)
+	warmupLog?: (message: string) => void; // Receives logs while warming if no handler is set
+	pendingCalls: Map<number, PendingCall>;
+	idleWaiters: Set<() => void>; // Notified when the last pending call settles
+	interruptBuffer?: Uint8Array; // Shared with Pyodide when cross-origin isolated
+	syncedFiles: Record<string, string> | null; // Files the worker's virtual FS holds (null = none synced yet)
+	createdAt: number;
+	heapBytes: number | null;
+	lastHeartbeat: number | null;
+	bootTimings: BootTimings | null;
+	buildingSnapshot: boolean; // Busy building the runtime snapshot after reporting ready
+	requirements: string[]; // requirements.txt specifiers it was warmed with
+}
+
+export interface CallOptions {
+	workerId?: string; // Defaults to the active worker
+	timeout?: number; // Milliseconds; no timeout if omitted
+	background?: boolean; // Don't mark the worker busy (heartbeats)
 }
 
 export class WorkerPool {
 	private workers: Map<string, PooledWorker> = new Map();
 	private poolSize: number;
 	private nextId = 0;
+	private nextRequestId = 0;
 	private isFirstLoad = true;
 	private availableIds: Set<number> = new Set([0, 1, 2]); // Track available worker IDs for reuse
 	private swapInProgress: boolean = false; // Prevent concurrent swaps
+	private activeWorkerId: string | null = null; // Worker serving the preview
+	private lastGoodDatabase: Uint8Array | null = null; // Carried over when a hung worker is killed
+	private options: Required<WorkerPoolOptions>;
+	private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+	private onLog?: (message: string) => void; // Log sink for background recovery
 	public onWorkerReady?: () => void; // Callback when a worker becomes ready
-
-	constructor(poolSize = 3) {
+	public onWorkerEvent?: (event: WorkerPoolEvent) => void; // Crashes, recycling and recovery
+	public onStatusChange?: (workers: WorkerInfo[]) => void; // Workers added, removed, swapped or heartbeated
+	private swapHistory: SwapRecord[] = [];
+	private requirements: string[] = []; // requirements.txt specifiers installed during init
+	private isWarmingSpares = false;
+	private rewarmSpares = false; // Requirements changed while spares were warming
+	private pendingInstallReport?: (response: WorkerResponse) => void; // Gets the next spare's install logs
+
+	constructor(poolSize = 3, options: WorkerPoolOptions = {}) {
 		this.poolSize = poolSize;
+		this.options = { ...DEFAULT_OPTIONS, ...options };
 	}
 
 	/**
@@ -31,30 +127,93 @@ export class WorkerPool {
 		onLog?: (message: string) => void,
 		onMessage?: (response: WorkerResponse) => void
 	): Promise<void> {
+		this.onLog = onLog;
 		onLog?.('Initializing worker pool...');
 
 		// Warm first worker and wait for it (this becomes the active worker and creates snapshot)
-		await this.createAndWarmWorker(onLog, onMessage);
+		const firstWorker = await this.createAndWarmWorker(onLog, onMessage);
+		this.activeWorkerId = firstWorker.id;
 		onLog?.('First worker ready, warming additional workers in background...');
 
 		// CRITICAL: Start warming remaining workers SEQUENTIALLY after first is ready
 		// This ensures they can use the snapshot created by the first worker
 		// We still don't await them (they warm in background), but they start one by one
 		this.warmRemainingWorkersSequentially(onLog);
+
+		this.heartbeatTimer = setInterval(() => this.checkWorkers(), this.options.heartbeatInterval);
 	}
 
 	/**
-	 * Warm remaining workers sequentially in the background
+	 * Warm remaining workers sequentially in the background until the pool is full
 	 * This ensures each worker can use the snapshot from the first worker
 	 */
 	private async warmRemainingWorkersSequentially(onLog?: (message: string) => void): Promise<void> {
-		for (let i = 1; i < this.poolSize; i++) {
+		if (this.isWarmingSpares) {
+			return;
+		}
+		this.isWarmingSpares = true;
+
+		// Bounded so a pool whose workers keep failing to boot does not retry forever
+		for (let attempt = 1; attempt < this.poolSize && this.workers.size < this.poolSize; attempt++) {
+			const reporter = this.pendingInstallReport;
+			this.pendingInstallReport = undefined;
+
 			try {
-				await this.createAndWarmWorker(onLog);
+				const worker = await this.createAndWarmWorker(onLog, reporter);
+				// The reporter only covers the install - a swap attaches the real handler
+				if (worker.id !== this.activeWorkerId) {
+					worker.messageHandler = undefined;
+				}
+				this.notifyWorkerReady();
 			} catch (err) {
 				onLog?.(`Failed to warm background worker: ${(err as Error).message}`);
 			}
 		}
+
+		this.isWarmingSpares = false;
+
+		// The attempts above may have gone to spares removed for new requirements
+		if (this.rewarmSpares) {
+			this.rewarmSpares = false;
+			this.warmRemainingWorkersSequentially(onLog);
+		}
+	}
+
+	/**
+	 * Set the requirements.txt specifiers installed on every worker during init
+	 * Spares warmed for the old requirements are replaced, and swaps wait for one warmed with
+	 * the new ones; the active worker keeps its packages until then. With onMessage, the first
+	 * new spare reports its install progress there
+	 */
+	setRequirements(requirements: string[], onMessage?: (response: WorkerResponse) => void): void {
+		this.requirements = [...requirements];
+		if (this.workers.size === 0) {
+			return; // Not initialized yet - the first worker picks them up
+		}
+
+		for (const worker of Array.from(this.workers.values())) {
+			if (worker.id !== this.activeWorkerId && worker.state !== 'transferring') {
+				this.removeWorker(worker.id, 'requirements changed');
+			}
+		}
+
+		this.pendingInstallReport = onMessage;
+		this.rewarmSpares = this.isWarmingSpares;
+		this.warmRemainingWorkersSequentially(this.onLog);
+	}
+
+	/**
+	 * The Django and Pyodide releases this pool's workers run
+	 */
+	getRuntimeVersions(): RuntimeVersions {
+		return { ...this.options.versions };
+	}
+
+	/**
+	 * The requirements.txt specifiers workers are warmed with
+	 */
+	getRequirements(): string[] {
+		return [...this.requirements];
 	}
 
 	/**
@@ -63,7 +222,7 @@ export class WorkerPool {
 	private async createAndWarmWorker(
 		onLog?: (message: string) => void,
 		onMessage?: (response: WorkerResponse) => void
-	): Promise<void> {
+	): Promise<PooledWorker> {
 		// Get the next available ID (reuse from terminated workers)
 		const workerId = this.availableIds.size > 0 ? Array.from(this.availableIds)[0] : this.nextId++;
 
@@ -77,29 +236,293 @@ export class WorkerPool {
 		const pooledWorker: PooledWorker = {
 			id,
 			worker,
-			state: 'warming'
+			state: 'warming',
+			pendingCalls: new Map(),
+			idleWaiters: new Set(),
+			syncedFiles: null,
+			createdAt: Date.now(),
+			heapBytes: null,
+			lastHeartbeat: null,
+			bootTimings: null,
+			buildingSnapshot: false,
+			requirements: this.requirements
 		};
 
+		// SharedArrayBuffer is only available when the page is cross-origin isolated
+		if (typeof SharedArrayBuffer !== 'undefined' && globalThis.crossOriginIsolated) {
+			pooledWorker.interruptBuffer = new Uint8Array(new SharedArrayBuffer(1));
+		}
+
 		// Set message handler if provided (for first worker during initialization)
 		if (onMessage) {
 			pooledWorker.messageHandler = onMessage;
 		}
 
+		// Single permanent listener - replies are routed to their call by request id
+		worker.addEventListener('message', (event: MessageEvent<WorkerResponse>) => {
+			this.dispatchResponse(pooledWorker, event.data);
+		});
+
+		// Uncaught errors leave the worker in an unknown state
+		worker.addEventListener('error', (event) => {
+			event.preventDefault();
+			this.handleWorkerCrash(pooledWorker, event.message || 'uncaught error');
+		});
+
+		// A reply that cannot be deserialized would leave its call waiting forever
+		worker.addEventListener('messageerror', () => {
+			this.handleWorkerCrash(pooledWorker, 'message could not be deserialized');
+		});
+
 		this.workers.set(id, pooledWorker);
 		onLog?.(`Starting to warm worker ${id}...`);
 
 		// Wait for worker to be ready
 		await this.warmWorker(pooledWorker, onLog);
 
-		// Attach permanent event listener if message handler was set
+		return pooledWorker;
+	}
+
+	/**
+	 * Route a worker message to the call awaiting it, or to the unsolicited message handler
+	 */
+	private dispatchResponse(pooledWorker: PooledWorker, response: WorkerResponse): void {
+		if (response.version !== WORKER_PROTOCOL_VERSION) {
+			console.warn(
+				`[WorkerPool] Ignoring v${response.version} message from ${pooledWorker.id} (expected v${WORKER_PROTOCOL_VERSION})`
+			);
+			return;
+		}
+
+		if (response.type === 'snapshotBuilt') {
+			pooledWorker.buildingSnapshot = false;
+			return;
+		}
+
+		const pending = response.id !== undefined ? pooledWorker.pendingCalls.get(response.id) : null;
+
+		if (pending && response.id !== undefined) {
+			pooledWorker.pendingCalls.delete(response.id);
+			if (pending.timeout) {
+				clearTimeout(pending.timeout);
+			}
+
+			if (response.type === 'error') {
+				pending.reject(new Error(response.payload.message));
+			} else {
+				pending.resolve(response.payload);
+			}
+			this.notifyIfIdle(pooledWorker);
+			return;
+		}
+
 		if (pooledWorker.messageHandler) {
-			const eventListener = (event: MessageEvent<WorkerResponse>) => {
-				if (pooledWorker.messageHandler) {
-					pooledWorker.messageHandler(event.data);
+			pooledWorker.messageHandler(response);
+		} else if (response.type === 'log' && pooledWorker.warmupLog) {
+			// Forward log message to onLog callback during warmup
+			pooledWorker.warmupLog(String(response.payload.message));
+		}
+	}
+
+	/**
+	 * Send a request to a worker and resolve with its reply payload
+	 * Rejects if the worker replies with an error or the timeout elapses
+	 */
+	call<K extends WorkerRequestType>(
+		type: K,
+		payload: WorkerRequestPayloads[K],
+		options: CallOptions = {}
+	): Promise<WorkerReply<K>> {
+		const workerId = options.workerId ?? this.activeWorkerId;
+		const pooledWorker = workerId ? this.workers.get(workerId) : undefined;
+		if (!pooledWorker) {
+			return Promise.reject(new Error(`No worker available for ${type}`));
+		}
+
+		const id = this.nextRequestId++;
+		const request = { id, version: WORKER_PROTOCOL_VERSION, type, payload } as WorkerRequest;
+
+		// Clear any interrupt left over from a request that finished before it was delivered
+		if (pooledWorker.interruptBuffer) {
+			pooledWorker.interruptBuffer[0] = 0;
+		}
+
+		// Only idle workers are marked busy - warming/transferring workers keep their state
+		const markBusy = pooledWorker.state === 'ready' && !options.background;
+		if (markBusy) {
+			pooledWorker.state = 'busy';
+		}
+
+		return new Promise<WorkerReply<K>>((resolve, reject) => {
+			const settle = () => {
+				if (markBusy && pooledWorker.state === 'busy') {
+					pooledWorker.state = 'ready';
+				}
+			};
+
+			const pending: PendingCall = {
+				type,
+				resolve: (reply) => {
+					settle();
+					resolve(reply as WorkerReply<K>);
+				},
+				reject: (error) => {
+					settle();
+					reject(error);
 				}
 			};
-			pooledWorker.eventListener = eventListener;
-			pooledWorker.worker.addEventListener('message', eventListener);
+
+			if (options.timeout !== undefined) {
+				pending.timeout = setTimeout(() => {
+					pooledWorker.pendingCalls.delete(id);
+					this.notifyIfIdle(pooledWorker);
+					pending.reject(
+						new Error(`${type} on ${pooledWorker.id} timed out after ${options.timeout}ms`)
+					);
+				}, options.timeout);
+			}
+
+			pooledWorker.pendingCalls.set(id, pending);
+
+			try {
+				pooledWorker.worker.postMessage(request);
+			} catch (error) {
+				pooledWorker.pendingCalls.delete(id);
+				if (pending.timeout) {
+					clearTimeout(pending.timeout);
+				}
+				pending.reject(error as Error);
+			}
+		});
+	}
+
+	/**
+	 * Reject every outstanding call on a worker (used when it is terminated)
+	 */
+	private rejectPendingCalls(pooledWorker: PooledWorker, reason: string): void {
+		for (const pending of pooledWorker.pendingCalls.values()) {
+			if (pending.timeout) {
+				clearTimeout(pending.timeout);
+			}
+			pending.reject(new Error(`${pending.type} on ${pooledWorker.id} aborted: ${reason}`));
+		}
+		pooledWorker.pendingCalls.clear();
+		this.notifyIfIdle(pooledWorker);
+	}
+
+	/**
+	 * Wake anyone waiting for a worker to finish its outstanding calls
+	 */
+	private notifyIfIdle(pooledWorker: PooledWorker): void {
+		if (pooledWorker.pendingCalls.size > 0) {
+			return;
+		}
+		for (const waiter of pooledWorker.idleWaiters) {
+			waiter();
+		}
+		pooledWorker.idleWaiters.clear();
+	}
+
+	/**
+	 * Resolve true once a worker has no outstanding calls, or false after timeoutMs
+	 */
+	private waitForIdle(pooledWorker: PooledWorker, timeoutMs: number): Promise<boolean> {
+		if (pooledWorker.pendingCalls.size === 0) {
+			return Promise.resolve(true);
+		}
+
+		return new Promise((resolve) => {
+			const waiter = () => {
+				clearTimeout(timeout);
+				resolve(true);
+			};
+			const timeout = setTimeout(() => {
+				pooledWorker.idleWaiters.delete(waiter);
+				resolve(false);
+			}, timeoutMs);
+			pooledWorker.idleWaiters.add(waiter);
+		});
+	}
+
+	/**
+	 * Whether the active worker's Python can be interrupted in place
+	 */
+	canInterrupt(): boolean {
+		const worker = this.activeWorkerId ? this.workers.get(this.activeWorkerId) : undefined;
+		return !!worker?.interruptBuffer;
+	}
+
+	/**
+	 * Raise KeyboardInterrupt in the active worker's running Python code
+	 * Returns true if the worker settled its calls within the grace period
+	 */
+	async interruptActiveWorker(graceMs = 2000): Promise<boolean> {
+		const worker = this.activeWorkerId ? this.workers.get(this.activeWorkerId) : undefined;
+		if (!worker?.interruptBuffer) {
+			return false;
+		}
+
+		// 2 = SIGINT; Pyodide checks the buffer between bytecodes and resets it
+		worker.interruptBuffer[0] = 2;
+		const settled = await this.waitForIdle(worker, graceMs);
+		if (!settled) {
+			// Stuck outside the interpreter loop (e.g. inside a long SQLite call)
+			worker.interruptBuffer[0] = 0;
+		}
+		return settled;
+	}
+
+	/**
+	 * Terminate a hung active worker and swap to a warm one, carrying over the last good database
+	 * Outstanding calls on the terminated worker are rejected
+	 */
+	async replaceActiveWorker(
+		files: Record<string, string>,
+		onMessage?: (response: WorkerResponse) => void,
+		onLog?: (message: string) => void
+	): Promise<string | null> {
+		// A swap under way would turn this one down: wait for it, it may replace the hung worker
+		const hungWorkerId = this.activeWorkerId;
+		while (this.swapInProgress) {
+			await new Promise((resolve) => setTimeout(resolve, 100));
+		}
+		if (this.activeWorkerId !== hungWorkerId) {
+			return this.activeWorkerId;
+		}
+
+		if (this.activeWorkerId) {
+			onLog?.(`Terminating hung worker ${this.activeWorkerId}`);
+			this.removeWorker(this.activeWorkerId, 'request cancelled');
+		}
+
+		// Without a warm spare, start one now rather than leaving the pool without an active worker
+		if (!this.getReadyWorker()) {
+			try {
+				await this.createAndWarmWorker(onLog);
+			} catch (error) {
+				onLog?.(`Failed to warm replacement worker: ${(error as Error).message}`);
+				return null;
+			}
+		}
+
+		return this.swapToFreshWorker(files, onMessage, onLog);
+	}
+
+	/**
+	 * Checkpoint and return the active worker's database, e.g. to move it to a new pool
+	 */
+	async exportDatabase(): Promise<Uint8Array | null> {
+		await this.checkpointDatabase();
+		return this.lastGoodDatabase;
+	}
+
+	/**
+	 * Copy the active worker's database so it survives the worker being terminated
+	 */
+	async checkpointDatabase(): Promise<void> {
+		const worker = this.activeWorkerId ? this.workers.get(this.activeWorkerId) : undefined;
+		if (worker) {
+			await this.getDatabaseFromWorker(worker);
 		}
 	}
 
@@ -110,57 +533,50 @@ export class WorkerPool {
 		pooledWorker: PooledWorker,
 		onLog?: (message: string) => void
 	): Promise<void> {
-		return new Promise((resolve, reject) => {
-			const timeout = setTimeout(() => {
-				reject(new Error(`Worker ${pooledWorker.id} warming timed out`));
-			}, 60000); // 60 second timeout
-
-			const messageHandler = (event: MessageEvent<WorkerResponse>) => {
-				const response = event.data;
+		pooledWorker.warmupLog = onLog;
 
-				if (response.type === 'ready') {
-					clearTimeout(timeout);
-					pooledWorker.state = 'ready';
-					onLog?.(`Worker ${pooledWorker.id} is ready`);
-					// Remove warmup listener to prevent duplicate messages
-					pooledWorker.worker.removeEventListener('message', messageHandler);
-
-					// Set isFirstLoad to false BEFORE resolving
-					// This ensures next worker sees the updated flag
-					if (this.isFirstLoad) {
-						this.isFirstLoad = false;
-					}
-
-					resolve();
-				} else if (response.type === 'error') {
-					clearTimeout(timeout);
-					onLog?.(`Worker ${pooledWorker.id} failed to warm up`);
-					// Remove warmup listener on error
-					pooledWorker.worker.removeEventListener('message', messageHandler);
-					reject(new Error('Worker initialization failed'));
-				} else if (response.type === 'log') {
-					// Forward logs during warmup if handler is set, otherwise use onLog callback
-					if (pooledWorker.messageHandler) {
-						pooledWorker.messageHandler(response);
-					} else if (onLog && response.payload && 'message' in response.payload) {
-						// Forward log message to onLog callback during warmup
-						onLog(String(response.payload.message));
-					}
-				}
-			};
+		try {
+			const { success, timings, buildingSnapshot, failedRequirements } = await this.call(
+				'init',
+				{
+					isFirstLoad: this.isFirstLoad,
+					interruptBuffer: pooledWorker.interruptBuffer,
+					requirements: pooledWorker.requirements,
+					versions: this.options.versions
+				},
+				// 60 seconds, plus time for each requirements.txt package
+				{ workerId: pooledWorker.id, timeout: 60000 + pooledWorker.requirements.length * 30000 }
+			);
 
-			pooledWorker.worker.addEventListener('message', messageHandler);
+			if (!success) {
+				throw new Error('Worker initialization failed');
+			}
 
-			// Send init message
-			const initMessage: WorkerRequest = {
-				type: 'init',
-				payload: {
-					isFirstLoad: this.isFirstLoad
-				}
-			};
+			pooledWorker.state = 'ready';
+			pooledWorker.bootTimings = timings ?? null;
+			pooledWorker.buildingSnapshot = buildingSnapshot ?? false;
+			onLog?.(`Worker ${pooledWorker.id} is ready`);
+			this.emitStatus();
+
+			if (failedRequirements?.length) {
+				this.onWorkerEvent?.({
+					type: 'installFailed',
+					workerId: pooledWorker.id,
+					requirements: failedRequirements
+				});
+			}
 
-			pooledWorker.worker.postMessage(initMessage);
-		});
+			// Set isFirstLoad to false once a worker is up
+			// This ensures next worker sees the updated flag
+			if (this.isFirstLoad) {
+				this.isFirstLoad = false;
+			}
+		} catch (error) {
+			onLog?.(`Worker ${pooledWorker.id} failed to warm up`);
+			throw error;
+		} finally {
+			pooledWorker.warmupLog = undefined;
+		}
 	}
 
 	/**
@@ -173,12 +589,166 @@ export class WorkerPool {
 	}
 
 	/**
-	 * Get an available worker from the pool
-	 * Returns null if no workers are ready
+	 * Heartbeat every idle worker, then recycle or replace the ones that need it
+	 * Busy workers are skipped - a long request is covered by the request timeout instead -
+	 * and so is a worker building the snapshot, which cannot answer until it is done
+	 */
+	private async checkWorkers(): Promise<void> {
+		const idleWorkers = Array.from(this.workers.values()).filter(
+			(worker) =>
+				worker.state === 'ready' && worker.pendingCalls.size === 0 && !worker.buildingSnapshot
+		);
+
+		await Promise.all(idleWorkers.map((worker) => this.heartbeat(worker)));
+		this.emitStatus();
+	}
+
+	private async heartbeat(worker: PooledWorker): Promise<void> {
+		try {
+			const { healthy, heapBytes } = await this.call('ping', undefined, {
+				workerId: worker.id,
+				timeout: this.options.heartbeatTimeout,
+				background: true
+			});
+
+			worker.heapBytes = heapBytes;
+			worker.lastHeartbeat = Date.now();
+
+			if (!healthy) {
+				this.handleWorkerCrash(worker, 'Pyodide fatal error');
+			} else if (heapBytes !== null && heapBytes > this.options.memoryLimit) {
+				await this.recycleWorker(worker);
+			}
+		} catch (error) {
+			// Rejected because the worker was removed meanwhile - nothing to do
+			if (this.workers.get(worker.id) !== worker) {
+				return;
+			}
+			this.handleWorkerCrash(worker, `missed heartbeat (${(error as Error).message})`);
+		}
+	}
+
+	/**
+	 * Mark a worker dead, fail its calls and replace it
+	 * A crashed active worker is replaced by a warm one with its files and the last good database
+	 */
+	private handleWorkerCrash(worker: PooledWorker, reason: string): void {
+		if (worker.state === 'dead' || this.workers.get(worker.id) !== worker) {
+			return;
+		}
+
+		const wasActive = worker.id === this.activeWorkerId;
+		const wasWarming = worker.state === 'warming';
+		worker.state = 'dead';
+		this.onLog?.(`💥 Worker ${worker.id} crashed: ${reason}`);
+		this.onWorkerEvent?.({ type: 'crashed', workerId: worker.id, reason, wasActive });
+
+		const files = worker.syncedFiles ?? {};
+		const messageHandler = worker.messageHandler;
+		this.removeWorker(worker.id, `worker crashed: ${reason}`);
+
+		// A worker that never finished booting would likely crash again - its warm call reports the failure
+		if (wasWarming) {
+			return;
+		}
+
+		if (wasActive) {
+			this.replaceActiveWorker(files, messageHandler, this.onLog).then((workerId) => {
+				this.onWorkerEvent?.({ type: 'recovered', workerId });
+			});
+		} else {
+			this.warmReplacementWorker();
+		}
+	}
+
+	/**
+	 * Replace a worker whose heap has outgrown the memory limit
+	 * The active worker is only swapped out while idle and with a warm spare available
+	 */
+	private async recycleWorker(worker: PooledWorker): Promise<void> {
+		const wasActive = worker.id === this.activeWorkerId;
+		const heapBytes = worker.heapBytes ?? 0;
+
+		if (!wasActive) {
+			this.onWorkerEvent?.({ type: 'recycled', workerId: worker.id, heapBytes, wasActive });
+			this.removeWorker(worker.id, 'recycled');
+			this.warmReplacementWorker();
+			return;
+		}
+
+		// Try again on the next heartbeat
+		if (this.swapInProgress || !this.getReadyWorker()) {
+			return;
+		}
+
+		this.onWorkerEvent?.({ type: 'recycled', workerId: worker.id, heapBytes, wasActive });
+		const workerId = await this.swapToFreshWorker(
+			worker.syncedFiles ?? {},
+			worker.messageHandler,
+			this.onLog
+		);
+		this.onWorkerEvent?.({ type: 'recovered', workerId });
+	}
+
+	/**
+	 * Warm a spare worker in the background and notify subscribers once it is ready
+	 */
+	private warmReplacementWorker(): void {
+		this.createAndWarmWorker(this.onLog)
+			.then(() => this.notifyWorkerReady())
+			.catch((err) => {
+				this.onLog?.(`Failed to create replacement worker: ${err.message}`);
+			});
+	}
+
+	/**
+	 * Describe every pooled worker
+	 */
+	getWorkerInfo(): WorkerInfo[] {
+		return Array.from(this.workers.values()).map((worker) => ({
+			id: worker.id,
+			state: worker.state,
+			active: worker.id === this.activeWorkerId,
+			createdAt: worker.createdAt,
+			heapBytes: worker.heapBytes,
+			lastHeartbeat: worker.lastHeartbeat,
+			bootTimings: worker.bootTimings
+		}));
+	}
+
+	/**
+	 * Recent swaps of the active worker, oldest first
+	 */
+	getSwapHistory(): SwapRecord[] {
+		return [...this.swapHistory];
+	}
+
+	private recordSwap(record: SwapRecord): void {
+		this.swapHistory = [...this.swapHistory, record].slice(-SWAP_HISTORY_LIMIT);
+	}
+
+	private emitStatus(): void {
+		this.onStatusChange?.(this.getWorkerInfo());
+	}
+
+	/**
+	 * Get the ID of the worker currently serving the preview
+	 */
+	getActiveWorkerId(): string | null {
+		return this.activeWorkerId;
+	}
+
+	/**
+	 * Get an available spare worker from the pool (never the active worker)
+	 * Only spares warmed with the current requirements count; returns null if none is ready
 	 */
 	getReadyWorker(): PooledWorker | null {
 		for (const worker of this.workers.values()) {
-			if (worker.state === 'ready') {
+			if (
+				worker.state === 'ready' &&
+				worker.id !== this.activeWorkerId &&
+				sameRequirements(worker.requirements, this.requirements)
+			) {
 				return worker;
 			}
 		}
@@ -186,13 +756,12 @@ export class WorkerPool {
 	}
 
 	/**
-	 * Transfer files and database to a ready worker, then swap to it
+	 * Transfer files and database to a ready worker, then make it the active worker
 	 * Returns the worker ID that's now active
 	 */
 	async swapToFreshWorker(
 		files: Record<string, string>,
-		currentWorkerId: string | null,
-		onMessage: (response: WorkerResponse) => void,
+		onMessage?: (response: WorkerResponse) => void,
 		onLog?: (message: string) => void
 	): Promise<string | null> {
 		// Prevent concurrent swaps
@@ -204,6 +773,7 @@ export class WorkerPool {
 		this.swapInProgress = true;
 
 		const swapStartTime = performance.now();
+		const swapStartedAt = Date.now();
 
 		const readyWorker = this.getReadyWorker();
 		if (!readyWorker) {
@@ -212,10 +782,12 @@ export class WorkerPool {
 		}
 
 		readyWorker.state = 'transferring';
+		const currentWorkerId = this.activeWorkerId;
 
 		try {
 			// Get database from current worker if we have one
-			let dbData: Uint8Array | null = null;
+			// If it was terminated (hung request), fall back to the last good copy
+			let dbData: Uint8Array | null = this.lastGoodDatabase;
 			if (currentWorkerId) {
 				const currentWorker = this.workers.get(currentWorkerId);
 				if (currentWorker) {
@@ -223,7 +795,9 @@ export class WorkerPool {
 				}
 			}
 
-			await this.writeFilesToWorker(readyWorker, files);
+			if (!(await this.syncFilesToWorker(readyWorker, files))) {
+				throw new Error('file sync failed');
+			}
 
 			// Transfer database if we have one
 			if (dbData) {
@@ -232,36 +806,24 @@ export class WorkerPool {
 
 			// Terminate old worker (it has stale state) and create a fresh one
 			if (currentWorkerId) {
-				const oldWorker = this.workers.get(currentWorkerId);
-				if (oldWorker) {
-					// Remove event listener if it exists
-					if (oldWorker.eventListener) {
-						oldWorker.worker.removeEventListener('message', oldWorker.eventListener);
-					}
-					// Terminate the worker to free resources
-					oldWorker.worker.terminate();
-					// Remove from pool
-					this.workers.delete(currentWorkerId);
-					// Return the worker ID to available pool for reuse
-					const workerId = parseInt(currentWorkerId.replace('worker-', ''));
-					this.availableIds.add(workerId);
-				}
+				this.removeWorker(currentWorkerId, 'replaced by a fresh worker');
 			}
 
 			// Set up message handler for the new active worker
 			readyWorker.messageHandler = onMessage;
-			const eventListener = (event: MessageEvent<WorkerResponse>) => {
-				if (readyWorker.messageHandler) {
-					readyWorker.messageHandler(event.data);
-				}
-			};
-			readyWorker.eventListener = eventListener;
-			readyWorker.worker.addEventListener('message', eventListener);
-
 			readyWorker.state = 'ready';
+			this.activeWorkerId = readyWorker.id;
 
 			// Release swap lock BEFORE starting background worker warming
 			this.swapInProgress = false;
+			this.recordSwap({
+				fromId: currentWorkerId,
+				toId: readyWorker.id,
+				startedAt: swapStartedAt,
+				duration: performance.now() - swapStartTime,
+				success: true
+			});
+			this.emitStatus();
 
 			// Immediately start creating replacement worker (non-blocking)
 			// This worker will warm in parallel with the view execution
@@ -281,6 +843,13 @@ export class WorkerPool {
 			const totalDuration = performance.now() - swapStartTime;
 			onLog?.(`❌ Failed to swap to fresh worker after ${totalDuration.toFixed(2)}ms: ${error}`);
 			readyWorker.state = 'ready'; // Reset state on failure
+			this.recordSwap({
+				fromId: currentWorkerId,
+				toId: readyWorker.id,
+				startedAt: swapStartedAt,
+				duration: totalDuration,
+				success: false
+			});
 
 			// Release swap lock on error
 			this.swapInProgress = false;
@@ -289,104 +858,134 @@ export class WorkerPool {
 		}
 	}
 
+	/**
+	 * Terminate a worker, fail its outstanding calls and free its ID for reuse
+	 */
+	private removeWorker(workerId: string, reason: string): void {
+		const oldWorker = this.workers.get(workerId);
+		if (!oldWorker) {
+			return;
+		}
+
+		oldWorker.messageHandler = undefined;
+		// Terminate the worker to free resources
+		oldWorker.worker.terminate();
+		this.rejectPendingCalls(oldWorker, reason);
+		// Remove from pool
+		this.workers.delete(workerId);
+		// Return the worker ID to available pool for reuse
+		this.availableIds.add(parseInt(workerId.replace('worker-', '')));
+
+		if (this.activeWorkerId === workerId) {
+			this.activeWorkerId = null;
+		}
+		this.emitStatus();
+	}
+
 	/**
 	 * Get database data from a worker
 	 */
 	private async getDatabaseFromWorker(worker: PooledWorker): Promise<Uint8Array | null> {
 		const startTime = performance.now();
 
-		return new Promise((resolve) => {
-			const timeout = setTimeout(() => {
-				console.warn(`[WorkerPool] Timeout getting database from ${worker.id}`);
-				resolve(null);
-			}, 10000); // 10 second timeout
-
-			const messageHandler = (event: MessageEvent<WorkerResponse>) => {
-				const response = event.data;
-				if (response.type === 'database') {
-					clearTimeout(timeout);
-					worker.worker.removeEventListener('message', messageHandler);
-					const payload = response.payload as { dbData: Uint8Array | null };
-					const duration = performance.now() - startTime;
-					if (payload.dbData) {
-						console.log(
-							`[WorkerPool] Got database from ${worker.id}: ${payload.dbData.length} bytes in ${duration.toFixed(2)}ms`
-						);
-						resolve(payload.dbData);
-					} else {
-						console.log(
-							`[WorkerPool] No database data from ${worker.id} (${duration.toFixed(2)}ms)`
-						);
-						resolve(null);
-					}
-				}
-			};
+		try {
+			const { dbData } = await this.call('getDatabase', undefined, {
+				workerId: worker.id,
+				timeout: 10000 // 10 second timeout
+			});
+			const duration = performance.now() - startTime;
+			if (dbData) {
+				this.lastGoodDatabase = dbData;
+				console.log(
+					`[WorkerPool] Got database from ${worker.id}: ${dbData.length} bytes in ${duration.toFixed(2)}ms`
+				);
+			} else {
+				console.log(`[WorkerPool] No database data from ${worker.id} (${duration.toFixed(2)}ms)`);
+			}
+			return dbData;
+		} catch (error) {
+			console.warn(`[WorkerPool] Failed getting database from ${worker.id}: ${error}`);
+			return null;
+		}
+	}
 
-			worker.worker.addEventListener('message', messageHandler);
+	/**
+	 * Bring a worker's virtual FS in line with the workspace (defaults to the active worker)
+	 * Only the difference from what the worker already has is sent
+	 */
+	async syncFiles(files: Record<string, string>, workerId?: string): Promise<boolean> {
+		const worker = this.workers.get(workerId ?? this.activeWorkerId ?? '');
+		if (!worker) {
+			return false;
+		}
+		return this.syncFilesToWorker(worker, files);
+	}
 
-			const request: WorkerRequest = {
-				type: 'getDatabase'
-			};
+	/**
+	 * Changes between the active worker's synced files and the given files
+	 * Returns null if the active worker has not been synced yet
+	 */
+	getPendingChanges(files: Record<string, string>): FileChangeSet | null {
+		const worker = this.activeWorkerId ? this.workers.get(this.activeWorkerId) : undefined;
+		if (!worker?.syncedFiles) {
+			return null;
+		}
+		return diffFiles(worker.syncedFiles, files);
+	}
 
-			worker.worker.postMessage(request);
-		});
+	/**
+	 * Sync files to the active worker and reload the changed modules in its running interpreter
+	 */
+	async hotReload(files: Record<string, string>, paths: string[]): Promise<ExecutionResult> {
+		if (!(await this.syncFiles(files))) {
+			throw new Error('Failed to sync files to worker');
+		}
+		return this.call('reloadModules', { paths }, { timeout: 30000 });
+	}
+
+	/**
+	 * Whether the active worker has received the workspace files at least once
+	 */
+	hasSyncedFiles(): boolean {
+		const worker = this.activeWorkerId ? this.workers.get(this.activeWorkerId) : undefined;
+		return !!worker?.syncedFiles;
 	}
 
 	/**
-	 * Write files to a worker
+	 * Send a worker the changes between its synced files and the given files
 	 */
-	private async writeFilesToWorker(
+	private async syncFilesToWorker(
 		worker: PooledWorker,
 		files: Record<string, string>
 	): Promise<boolean> {
 		const startTime = performance.now();
-		const fileCount = Object.keys(files).length;
+		const changes = diffFiles(worker.syncedFiles ?? {}, files);
 
-		return new Promise((resolve) => {
-			const timeout = setTimeout(() => {
-				const duration = performance.now() - startTime;
-				console.warn(
-					`[WorkerPool] Timeout writing ${fileCount} files to ${worker.id} after ${duration.toFixed(2)}ms`
-				);
-				resolve(false);
-			}, 30000); // 30 second timeout
-
-			const messageHandler = (event: MessageEvent<WorkerResponse>) => {
-				const response = event.data;
-				if (response.type === 'result') {
-					clearTimeout(timeout);
-					worker.worker.removeEventListener('message', messageHandler);
-					const payload = response.payload as { success: boolean };
-
-					resolve(payload.success);
-				} else if (response.type === 'error') {
-					clearTimeout(timeout);
-					worker.worker.removeEventListener('message', messageHandler);
-					const duration = performance.now() - startTime;
-					console.error(
-						`[WorkerPool] Error writing files to ${worker.id} after ${duration.toFixed(2)}ms`
-					);
-					resolve(false);
-				}
-			};
-
-			worker.worker.addEventListener('message', messageHandler);
-
-			const request: WorkerRequest = {
-				type: 'writeFiles',
-				payload: { files }
-			};
+		if (worker.syncedFiles && isEmptyChangeSet(changes)) {
+			return true;
+		}
 
-			try {
-				worker.worker.postMessage(request);
-			} catch (error) {
-				console.error('[WorkerPool] postMessage failed:', error);
-				console.error('[WorkerPool] Error name:', (error as Error).name);
-				console.error('[WorkerPool] Error message:', (error as Error).message);
-				console.error('[WorkerPool] Files object:', files);
-				throw error; // Re-throw to be caught by outer catch
+		try {
+			const result = await this.call(
+				'syncFiles',
+				{ changes },
+				{ workerId: worker.id, timeout: 30000 } // 30 second timeout
+			);
+			if (result.success) {
+				worker.syncedFiles = { ...files };
+			} else {
+				// Unknown partial state - force a full resync next time
+				worker.syncedFiles = null;
 			}
-		});
+			return result.success;
+		} catch (error) {
+			const duration = performance.now() - startTime;
+			console.error(
+				`[WorkerPool] Error syncing ${countChanges(changes)} file changes to ${worker.id} after ${duration.toFixed(2)}ms: ${error}`
+			);
+			worker.syncedFiles = null;
+			return false;
+		}
 	}
 
 	/**
@@ -394,54 +993,26 @@ export class WorkerPool {
 	 */
 	private async setDatabaseToWorker(worker: PooledWorker, dbData: Uint8Array): Promise<boolean> {
 		const startTime = performance.now();
+		console.log(`[WorkerPool] Setting database to ${worker.id}: ${dbData.length} bytes`);
 
-		return new Promise((resolve) => {
-			console.log(`[WorkerPool] Setting database to ${worker.id}: ${dbData.length} bytes`);
-
-			const timeout = setTimeout(() => {
-				const duration = performance.now() - startTime;
-				console.warn(
-					`[WorkerPool] Timeout setting database to ${worker.id} after ${duration.toFixed(2)}ms`
-				);
-				resolve(false);
-			}, 10000); // 10 second timeout
-
-			const messageHandler = (event: MessageEvent<WorkerResponse>) => {
-				const response = event.data;
-				if (response.type === 'result') {
-					clearTimeout(timeout);
-					worker.worker.removeEventListener('message', messageHandler);
-					const payload = response.payload as { success: boolean };
-					const duration = performance.now() - startTime;
-					console.log(
-						`[WorkerPool] Database set to ${worker.id} in ${duration.toFixed(2)}ms: ${payload.success ? 'success' : 'failed'}`
-					);
-					resolve(payload.success);
-				} else if (response.type === 'error') {
-					clearTimeout(timeout);
-					worker.worker.removeEventListener('message', messageHandler);
-					const duration = performance.now() - startTime;
-					console.error(
-						`[WorkerPool] Error setting database to ${worker.id} after ${duration.toFixed(2)}ms`
-					);
-					resolve(false);
-				}
-			};
-
-			worker.worker.addEventListener('message', messageHandler);
-
-			const postMessageStartTime = performance.now();
-			const request: WorkerRequest = {
-				type: 'setDatabase',
-				payload: { dbData }
-			};
-
-			worker.worker.postMessage(request);
-			const postMessageDuration = performance.now() - postMessageStartTime;
+		try {
+			const result = await this.call(
+				'setDatabase',
+				{ dbData },
+				{ workerId: worker.id, timeout: 10000 } // 10 second timeout
+			);
+			const duration = performance.now() - startTime;
 			console.log(
-				`[WorkerPool] postMessage for setDatabase took ${postMessageDuration.toFixed(2)}ms (${dbData.length} bytes)`
+				`[WorkerPool] Database set to ${worker.id} in ${duration.toFixed(2)}ms: ${result.success ? 'success' : 'failed'}`
 			);
-		});
+			return result.success;
+		} catch (error) {
+			const duration = performance.now() - startTime;
+			console.error(
+				`[WorkerPool] Error setting database to ${worker.id} after ${duration.toFixed(2)}ms: ${error}`
+			);
+			return false;
+		}
 	}
 
 	/**
@@ -451,20 +1022,6 @@ export class WorkerPool {
 		return this.workers.get(workerId) || null;
 	}
 
-	/**
-	 * Send a message to a specific worker
-	 */
-	sendMessage(workerId: string, request: WorkerRequest): boolean {
-		const worker = this.workers.get(workerId);
-		if (!worker) {
-			return false;
-		}
-
-		worker.state = 'busy';
-		worker.worker.postMessage(request);
-		return true;
-	}
-
 	/**
 	 * Mark a worker as ready after completing a task
 	 */
@@ -489,10 +1046,16 @@ export class WorkerPool {
 	 * Terminate all workers in the pool
 	 */
 	terminateAll(): void {
+		if (this.heartbeatTimer) {
+			clearInterval(this.heartbeatTimer);
+			this.heartbeatTimer = null;
+		}
 		for (const worker of this.workers.values()) {
 			worker.worker.terminate();
+			this.rejectPendingCalls(worker, 'pool terminated');
 		}
 		this.workers.clear();
+		this.activeWorkerId = null;
 	}
 
 	/**
@@ -503,7 +1066,8 @@ export class WorkerPool {
 			warming: 0,
 			ready: 0,
 			busy: 0,
-			transferring: 0
+			transferring: 0,
+			dead: 0
 		};
 
 		for (const worker of this.workers.values()) {
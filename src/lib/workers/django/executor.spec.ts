@@ -0,0 +1,178 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { encodeBody, getHeaderEnviron, parseSetCookie } from './executor';
+
+// The executor runs in a worker: logs are posted to the page and headers come from navigator
+const postMessage = vi.fn();
+
+beforeEach(() => {
+	vi.stubGlobal('self', { postMessage });
+	vi.stubGlobal('navigator', { languages: ['en-US', 'en'], language: 'en-US', userAgent: 'Test' });
+	vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+});
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+	vi.useRealTimers();
+	postMessage.mockClear();
+});
+
+describe('getHeaderEnviron', () => {
+	it('adds the browser default headers', () => {
+		expect(getHeaderEnviron({})).toEqual({
+			HTTP_ACCEPT: 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+			HTTP_ACCEPT_LANGUAGE: 'en-US,en',
+			HTTP_USER_AGENT: 'Test'
+		});
+	});
+
+	it('maps header names to HTTP_ keys', () => {
+		const environ = getHeaderEnviron({ 'X-Requested-With': 'XMLHttpRequest', Accept: '*/*' });
+
+		expect(environ.HTTP_X_REQUESTED_WITH).toBe('XMLHttpRequest');
+		expect(environ.HTTP_ACCEPT).toBe('*/*');
+	});
+
+	it('leaves Content-Type and Content-Length to the environ', () => {
+		const environ = getHeaderEnviron({ 'Content-Type': 'text/plain', 'content-length': '4' });
+
+		expect(environ).not.toHaveProperty('HTTP_CONTENT_TYPE');
+		expect(environ).not.toHaveProperty('HTTP_CONTENT_LENGTH');
+	});
+
+	it('drops names with underscores', () => {
+		expect(getHeaderEnviron({ X_Forwarded_User: 'admin' })).not.toHaveProperty(
+			'HTTP_X_FORWARDED_USER'
+		);
+	});
+
+	it('replaces default headers sent in another case', () => {
+		const environ = getHeaderEnviron({ accept: 'application/json', 'user-agent': 'curl/8.0' });
+
+		expect(environ.HTTP_ACCEPT).toBe('application/json');
+		expect(environ.HTTP_USER_AGENT).toBe('curl/8.0');
+		expect(environ.HTTP_ACCEPT_LANGUAGE).toBe('en-US,en');
+	});
+
+	it('joins repeated headers with commas', () => {
+		expect(getHeaderEnviron({ 'X-Tag': 'a', 'x-tag': 'b' }).HTTP_X_TAG).toBe('a,b');
+	});
+});
+
+describe('parseSetCookie', () => {
+	it('reads the name, value and attributes', () => {
+		const cookie = parseSetCookie(
+			'sessionid=abc123; Domain=localhost; Path=/app; Secure; HttpOnly; SameSite=lax',
+			'/'
+		);
+
+		expect(cookie).toEqual({
+			name: 'sessionid',
+			value: 'abc123',
+			domain: 'localhost',
+			path: '/app',
+			secure: true,
+			httpOnly: true,
+			sameSite: 'Lax'
+		});
+	});
+
+	it('defaults the path to the directory of the request path', () => {
+		expect(parseSetCookie('a=1', '/accounts/login/')?.path).toBe('/accounts/login');
+		expect(parseSetCookie('a=1', '/login')?.path).toBe('/');
+		expect(parseSetCookie('a=1; Path=relative', '/accounts/login')?.path).toBe('/accounts');
+	});
+
+	it('keeps cookies without Expires or Max-Age as session cookies', () => {
+		expect(parseSetCookie('a=1', '/')?.expires).toBeUndefined();
+	});
+
+	it('prefers Max-Age over Expires', () => {
+		const cookie = parseSetCookie('a=1; Expires=Thu, 01 Jan 2099 00:00:00 GMT; Max-Age=60', '/');
+
+		expect(cookie?.expires).toBe(Date.now() + 60_000);
+	});
+
+	it('reads Expires dates', () => {
+		const cookie = parseSetCookie('a=1; expires=Thu, 01 Jan 2099 00:00:00 GMT', '/');
+
+		expect(cookie?.expires).toBe(Date.UTC(2099, 0, 1));
+	});
+
+	it('expires deleted cookies at once', () => {
+		// What Django's delete_cookie sends
+		const cookie = parseSetCookie(
+			'sessionid=""; expires=Thu, 01 Jan 1970 00:00:00 GMT; Max-Age=0; Path=/',
+			'/logout/'
+		);
+
+		expect(cookie?.expires).toBe(0);
+		expect(cookie?.path).toBe('/');
+	});
+
+	it('ignores headers without a name', () => {
+		expect(parseSetCookie('no-equals-sign', '/')).toBeNull();
+		expect(parseSetCookie('=value', '/')).toBeNull();
+	});
+
+	it('rejects cookies for other domains', () => {
+		expect(parseSetCookie('a=1; Domain=example.com', '/')).toBeNull();
+		expect(postMessage).toHaveBeenCalledOnce();
+	});
+
+	it('rejects SameSite=None cookies that are not Secure', () => {
+		expect(parseSetCookie('a=1; SameSite=None', '/')).toBeNull();
+		expect(parseSetCookie('a=1; SameSite=None; Secure', '/')?.sameSite).toBe('None');
+	});
+});
+
+describe('encodeBody', () => {
+	const decode = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+	const file = () => new File(['hello'], 'notes.txt', { type: 'text/plain' });
+
+	it('keeps repeated keys of url-encoded forms', async () => {
+		const fields: Array<[string, string]> = [
+			['tag', 'a'],
+			['tag', 'b c']
+		];
+		const { bytes, contentType } = await encodeBody(fields, 'application/x-www-form-urlencoded');
+
+		expect(decode(bytes)).toBe('tag=a&tag=b+c');
+		expect(contentType).toBe('application/x-www-form-urlencoded');
+	});
+
+	it('sends files as their name in url-encoded forms', async () => {
+		const { bytes } = await encodeBody([['upload', file()]], 'application/x-www-form-urlencoded');
+
+		expect(decode(bytes)).toBe('upload=notes.txt');
+	});
+
+	it('encodes multipart forms with the boundary in the content type', async () => {
+		const { bytes, contentType } = await encodeBody(
+			[
+				['tag', 'a'],
+				['tag', 'b'],
+				['upload', file()]
+			],
+			'multipart/form-data'
+		);
+		const boundary = contentType.match(/^multipart\/form-data; boundary=(.+)$/)?.[1];
+		const body = decode(bytes);
+
+		expect(boundary).toBeTruthy();
+		expect(body.startsWith(`--${boundary}\r\n`)).toBe(true);
+		expect(body).toContain(`\r\n--${boundary}--`);
+		expect(body.match(/name="tag"/g)).toHaveLength(2);
+		expect(body).toContain(
+			'Content-Disposition: form-data; name="upload"; filename="notes.txt"\r\nContent-Type: text/plain\r\n\r\nhello\r\n'
+		);
+	});
+
+	it('url-encodes object bodies and sends strings as they are', async () => {
+		const encoded = await encodeBody({ q: 'a b' }, 'application/x-www-form-urlencoded');
+		const raw = await encodeBody('{"a": 1}', 'application/json');
+
+		expect(decode(encoded.bytes)).toBe('q=a+b');
+		expect(decode(raw.bytes)).toBe('{"a": 1}');
+		expect(raw.contentType).toBe('application/json');
+	});
+});
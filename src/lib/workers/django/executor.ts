@@ -1,11 +1,18 @@
 import { log, getLogs } from '../logger';
 import { getPyodide } from '../pyodide-manager';
-import { writeFilesToVirtualFS } from '../filesystem';
 import { inlineStaticFiles } from '../static-file-processor';
-import type { ExecutionResult } from '$lib/types';
-
-// Track if files have been written to this worker instance
-let filesWritten = false;
+import { callRuntime, callRuntimeAsync } from './runtime';
+import type {
+	ExecuteRequestPayload,
+	ExecutionResult,
+	FormFields,
+	HttpCookie,
+	HttpCookies,
+	PythonException,
+	PythonProfile,
+	SqlQuery,
+	StreamEvent
+} from '$lib/types';
 
 export async function executePython(code: string): Promise<ExecutionResult> {
 	const pyodide = getPyodide();
@@ -22,43 +29,12 @@ export async function executePython(code: string): Promise<ExecutionResult> {
 	try {
 		log('Executing Python code...', 'info');
 
-		// Capture stdout and stderr
-		const result = await pyodide.runPythonAsync(`
-import sys
-from io import StringIO
-
-# Capture stdout and stderr
-old_stdout = sys.stdout
-old_stderr = sys.stderr
-sys.stdout = StringIO()
-sys.stderr = StringIO()
-
-output = {'stdout': '', 'stderr': '', 'error': None, 'result': None}
-
-try:
-    # Execute the code
-    ${code}
-    output['result'] = 'Success'
-except Exception as e:
-    import traceback
-    output['error'] = str(e)
-    output['stderr'] = traceback.format_exc()
-finally:
-    # Get the captured output
-    output['stdout'] = sys.stdout.getvalue()
-    output['stderr'] = sys.stderr.getvalue()
-
-    # Restore stdout and stderr
-    sys.stdout = old_stdout
-    sys.stderr = old_stderr
-
-output
-		`);
+		const result = callRuntime(pyodide, 'run_code', code);
 
 		return {
-			success: !result.get('error'),
-			output: result.get('stdout') || '',
-			error: result.get('error') || result.get('stderr') || undefined,
+			success: !result.error,
+			output: result.stdout || '',
+			error: result.error || result.stderr || undefined,
 			logs: getLogs()
 		};
 	} catch (error) {
@@ -72,15 +48,199 @@ output
 	}
 }
 
+// Sent by browsers on every navigation; a request's own headers take precedence
+function getDefaultHeaders(): Record<string, string> {
+	return {
+		Accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+		'Accept-Language': navigator.languages?.join(',') || navigator.language || 'en-US',
+		'User-Agent': navigator.userAgent
+	};
+}
+
+/**
+ * Map request headers to WSGI environ keys the way runserver does:
+ * Content-Type and Content-Length lose the HTTP_ prefix (the environ already has both),
+ * names are upper-cased with dashes turned into underscores, and names containing
+ * underscores are dropped so they cannot spoof a dashed header
+ * Repeated headers (different casing of the same name) are joined with commas
+ */
+export function getHeaderEnviron(headers: Record<string, string>): Record<string, string> {
+	// A request header replaces the default of the same name in any case
+	const requested = new Set(Object.keys(headers).map((name) => name.toLowerCase()));
+	const defaults = Object.entries(getDefaultHeaders()).filter(
+		([name]) => !requested.has(name.toLowerCase())
+	);
+
+	const environ: Record<string, string> = {};
+	for (const [name, value] of [...defaults, ...Object.entries(headers)]) {
+		const lowerName = name.toLowerCase();
+		if (lowerName === 'content-type' || lowerName === 'content-length' || name.includes('_')) {
+			continue;
+		}
+		const key = `HTTP_${name.toUpperCase().replace(/-/g, '_')}`;
+		environ[key] = key in environ ? `${environ[key]},${value}` : String(value);
+	}
+	return environ;
+}
+
+/**
+ * Header names of environ keys the way Django's request.headers gives them (Accept-Language)
+ */
+function headersFromEnviron(environ: Record<string, string>): Array<[string, string]> {
+	return Object.entries(environ)
+		.filter(
+			([key]) => key.startsWith('HTTP_') || key === 'CONTENT_TYPE' || key === 'CONTENT_LENGTH'
+		)
+		.map(([key, value]) => [
+			key
+				.replace(/^HTTP_/, '')
+				.split('_')
+				.map((word) => word.charAt(0) + word.slice(1).toLowerCase())
+				.join('-'),
+			value
+		]);
+}
+
+/**
+ * Decode a text body with the charset named in its Content-Type (UTF-8 by default)
+ */
+function decodeBody(body: Uint8Array, contentType: string | undefined): string {
+	const charset = contentType?.match(/charset="?([^";\s]+)"?/i)?.[1] ?? 'utf-8';
+	try {
+		return new TextDecoder(charset).decode(body);
+	} catch {
+		// Unknown charset label
+		return new TextDecoder().decode(body);
+	}
+}
+
+// Host the requests are served as (SERVER_NAME); cookies for other domains are rejected
+const COOKIE_HOST = 'localhost';
+
+/**
+ * Directory of a request path, used as the path of cookies set without one (RFC 6265 5.1.4)
+ */
+function defaultCookiePath(requestPath: string): string {
+	if (!requestPath.startsWith('/')) return '/';
+	const lastSlash = requestPath.lastIndexOf('/');
+	return lastSlash <= 0 ? '/' : requestPath.slice(0, lastSlash);
+}
+
+/**
+ * Parse a Set-Cookie header as a browser would (RFC 6265 5.2)
+ * Max-Age takes precedence over Expires and a Max-Age of zero or less expires the cookie
+ * at once, so deletions come back with an expiry in the past
+ * Returns null for headers a browser ignores
+ */
+export function parseSetCookie(header: string, requestPath: string): HttpCookie | null {
+	const [pair, ...attributes] = header.split(';');
+	const separator = pair.indexOf('=');
+	if (separator === -1) return null;
+	const name = pair.slice(0, separator).trim();
+	if (!name) return null;
+
+	const cookie: HttpCookie = {
+		name,
+		value: pair.slice(separator + 1).trim(),
+		path: defaultCookiePath(requestPath),
+		secure: false,
+		httpOnly: false
+	};
+	let maxAge: number | undefined;
+
+	for (const attribute of attributes) {
+		const equals = attribute.indexOf('=');
+		const key = (equals === -1 ? attribute : attribute.slice(0, equals)).trim().toLowerCase();
+		const value = equals === -1 ? '' : attribute.slice(equals + 1).trim();
+
+		if (key === 'expires') {
+			const date = Date.parse(value);
+			if (!isNaN(date)) cookie.expires = date;
+		} else if (key === 'max-age') {
+			if (/^-?\d+$/.test(value)) maxAge = Number(value);
+		} else if (key === 'domain') {
+			if (value) cookie.domain = value.replace(/^\./, '').toLowerCase();
+		} else if (key === 'path') {
+			if (value.startsWith('/')) cookie.path = value;
+		} else if (key === 'secure') {
+			cookie.secure = true;
+		} else if (key === 'httponly') {
+			cookie.httpOnly = true;
+		} else if (key === 'samesite') {
+			const sameSite = ['Strict', 'Lax', 'None'].find(
+				(v) => v.toLowerCase() === value.toLowerCase()
+			);
+			if (sameSite) cookie.sameSite = sameSite as HttpCookie['sameSite'];
+		}
+	}
+
+	if (maxAge !== undefined) {
+		cookie.expires = maxAge <= 0 ? 0 : Date.now() + maxAge * 1000;
+	}
+
+	if (
+		cookie.domain &&
+		cookie.domain !== COOKIE_HOST &&
+		!COOKIE_HOST.endsWith(`.${cookie.domain}`)
+	) {
+		log(`Ignored cookie ${name}: Domain=${cookie.domain} does not match ${COOKIE_HOST}`, 'warning');
+		return null;
+	}
+	if (cookie.sameSite === 'None' && !cookie.secure) {
+		log(`Ignored cookie ${name}: SameSite=None requires Secure`, 'warning');
+		return null;
+	}
+	return cookie;
+}
+
+/**
+ * Encode a request body and give the Content-Type it needs
+ * Multipart form fields are encoded by the browser's own FormData serializer, which
+ * picks the boundary and writes file parts with their filename and type
+ */
+export async function encodeBody(
+	body: NonNullable<ExecuteRequestPayload['body']>,
+	contentType: string
+): Promise<{ bytes: Uint8Array; contentType: string }> {
+	if (Array.isArray(body)) {
+		const fields = body as FormFields;
+		if (contentType.startsWith('multipart/form-data')) {
+			const formData = new FormData();
+			for (const [name, value] of fields) {
+				formData.append(name, value);
+			}
+			const encoded = new Response(formData);
+			return {
+				bytes: new Uint8Array(await encoded.arrayBuffer()),
+				contentType: encoded.headers.get('Content-Type') ?? contentType
+			};
+		}
+
+		// URL-encoded forms send file inputs as their filename
+		const params = new URLSearchParams();
+		for (const [name, value] of fields) {
+			params.append(name, typeof value === 'string' ? value : value.name);
+		}
+		return { bytes: new TextEncoder().encode(params.toString()), contentType };
+	}
+
+	const bodyStr =
+		typeof body === 'object'
+			? new URLSearchParams(body as Record<string, string>).toString()
+			: String(body || '');
+	return { bytes: new TextEncoder().encode(bodyStr), contentType };
+}
+
 export async function executeDjangoView(
-	files: Record<string, string>,
 	viewPath: string = '/',
-	skipFileWrite: boolean = false,
 	method: string = 'GET',
 	headers: Record<string, string> = {},
-	body: string | Record<string, any> = '',
-	cookies: Record<string, string> = {},
-	isStaticFileRequest: boolean = false
+	body: NonNullable<ExecuteRequestPayload['body']> = '',
+	cookies: HttpCookies = [],
+	isStaticFileRequest: boolean = false,
+	onStream?: (event: Omit<StreamEvent, 'streamId'>) => void,
+	asgi: boolean = false,
+	profile: boolean = false
 ): Promise<ExecutionResult> {
 	const pyodide = getPyodide();
 	if (!pyodide) {
@@ -94,216 +254,101 @@ export async function executeDjangoView(
 	}
 
 	try {
-		// Always write files on first execution of this worker, even if skipFileWrite is true
-		if (!skipFileWrite || !filesWritten) {
-			const fileWriteStartTime = performance.now();
-
-			// Write files to virtual FS
-			await writeFilesToVirtualFS(files);
-			filesWritten = true;
-			const fileWriteDuration = performance.now() - fileWriteStartTime;
-			log(`File write completed in ${fileWriteDuration.toFixed(2)}ms`, 'info', 'worker');
-		}
-
 		const startExec = Date.now();
 		const pythonExecStartTime = performance.now();
 
-		// Serialize body to string
-		const bodyStr =
-			typeof body === 'object'
-				? new URLSearchParams(body as Record<string, string>).toString()
-				: String(body || '');
-		const contentLength = new TextEncoder().encode(bodyStr).length;
-		const contentType =
+		// Serialize body to bytes
+		const { bytes: bodyBytes, contentType } = await encodeBody(
+			body,
 			headers['Content-Type'] ||
-			headers['content-type'] ||
-			(method === 'POST' ? 'application/x-www-form-urlencoded' : '');
-
-		// Build cookie header from cookies object
-		const cookieHeader = Object.entries(cookies)
-			.map(([name, value]) => `${name}=${value}`)
-			.join('; ');
+				headers['content-type'] ||
+				(method === 'POST' ? 'application/x-www-form-urlencoded' : '')
+		);
+
+		// Build cookie header from the cookies the jar matched for this path
+		const cookieHeader = cookies.map(([name, value]) => `${name}=${value}`).join('; ');
+
+		// The cookie jar is merged into any Cookie header the request brought
+		const headerEnviron = getHeaderEnviron(headers);
+		if (cookieHeader) {
+			headerEnviron.HTTP_COOKIE = headerEnviron.HTTP_COOKIE
+				? `${headerEnviron.HTTP_COOKIE}; ${cookieHeader}`
+				: cookieHeader;
+		}
 
 		// Parse path and query string from viewPath
 		const [pathOnly, queryString] = viewPath.includes('?')
 			? viewPath.split('?', 2)
 			: [viewPath, ''];
 
-		// Execute Django and get HTML output
-		const result = await pyodide.runPythonAsync(`
-import sys
-import os
-from io import StringIO, BytesIO
-import time
-
-# Capture stdout and stderr
-old_stdout = sys.stdout
-old_stderr = sys.stderr
-sys.stdout = StringIO()
-sys.stderr = StringIO()
-
-output = {
-    'stdout': '',
-    'stderr': '',
-    'error': None,
-    'html': None,
-    'status': None,
-    'headers': [],
-    'timings': {}
-}
+		// Request headers as HTTP_* keys (see getHeaderEnviron)
+		const environ: Record<string, string> = {
+			REQUEST_METHOD: method,
+			PATH_INFO: pathOnly,
+			QUERY_STRING: queryString,
+			CONTENT_TYPE: contentType,
+			CONTENT_LENGTH: String(bodyBytes.length),
+			...headerEnviron
+		};
+
+		// Streaming responses are also reported chunk by chunk while Python runs
+		// (the callbacks receive values already converted with to_js)
+		const onStreamStart = onStream
+			? (status: string, headers: Array<[string, string]>) => onStream({ status, headers })
+			: null;
+		const onStreamChunk = onStream ? (chunk: Uint8Array) => onStream({ chunk }) : null;
 
-try:
-    overall_start = time.perf_counter()
-
-    # Import Django
-    import_start = time.perf_counter()
-    import django
-    from django.conf import settings
-    from django.core.handlers.wsgi import WSGIHandler
-    from django.contrib.staticfiles.handlers import StaticFilesHandler
-    import os
-    import_duration = (time.perf_counter() - import_start) * 1000
-    output['timings']['imports'] = f"{import_duration:.2f}ms"
-
-    # Force synchronous mode for Django ORM operations
-    os.environ['DJANGO_ALLOW_ASYNC_UNSAFE'] = 'true'
-
-    # Configure Django settings if not already configured
-    setup_start = time.perf_counter()
-    if not settings.configured:
-        # Use the actual settings file from the project
-        os.environ.setdefault('DJANGO_SETTINGS_MODULE', 'myproject.settings')
-        django.setup()
-    setup_duration = (time.perf_counter() - setup_start) * 1000
-    output['timings']['django_setup'] = f"{setup_duration:.2f}ms"
-
-    # Create WSGI environ
-    environ_start = time.perf_counter()
-    environ = {
-        'REQUEST_METHOD': '${method}',
-        'PATH_INFO': '${pathOnly}',
-        'QUERY_STRING': '${queryString}',
-        'CONTENT_TYPE': '${contentType}',
-        'CONTENT_LENGTH': '${contentLength}',
-        'SERVER_NAME': 'localhost',
-        'SERVER_PORT': '8000',
-        'SERVER_PROTOCOL': 'HTTP/1.1',
-        'SCRIPT_NAME': '',
-        'wsgi.version': (1, 0),
-        'wsgi.url_scheme': 'http',
-        'wsgi.input': BytesIO('''${bodyStr.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'''.encode('utf-8')),
-        'wsgi.errors': sys.stderr,
-        'wsgi.multithread': False,
-        'wsgi.multiprocess': False,
-        'wsgi.run_once': False,
-        ${cookieHeader ? `'HTTP_COOKIE': '${cookieHeader.replace(/'/g, "\\'")}',` : ''}
-    }
-    environ_duration = (time.perf_counter() - environ_start) * 1000
-    output['timings']['environ_creation'] = f"{environ_duration:.2f}ms"
-
-    # Execute WSGI handler with static files support
-    # StaticFilesHandler wraps WSGIHandler to serve static files in development
-    handler_start = time.perf_counter()
-    handler = StaticFilesHandler(WSGIHandler())
-    handler_duration = (time.perf_counter() - handler_start) * 1000
-    output['timings']['handler_creation'] = f"{handler_duration:.2f}ms"
-
-    response_data = {
-        'status': None,
-        'headers': [],
-        'body': []
-    }
-
-    def start_response(status, headers, exc_info=None):
-        if exc_info:
-            try:
-                if response_data['headers']:
-                    raise exc_info[1].with_traceback(exc_info[2])
-            finally:
-                exc_info = None
-        elif response_data['headers']:
-            raise RuntimeError("Response already started")
-
-        response_data['status'] = status
-        response_data['headers'] = headers
-        return lambda data: response_data['body'].append(data)
-
-    exec_start = time.perf_counter()
-    result = handler(environ, start_response)
-    try:
-        for chunk in result:
-            if chunk:
-                response_data['body'].append(chunk)
-    finally:
-        if hasattr(result, 'close'):
-            result.close()
-    exec_duration = (time.perf_counter() - exec_start) * 1000
-    output['timings']['handler_execution'] = f"{exec_duration:.2f}ms"
-
-    # Get the HTML
-    response_start = time.perf_counter()
-    html_bytes = b''.join(response_data['body'])
-    output['html'] = html_bytes.decode('utf-8')
-    output['status'] = response_data['status']
-    output['headers'] = response_data['headers']
-    response_duration = (time.perf_counter() - response_start) * 1000
-    output['timings']['response_processing'] = f"{response_duration:.2f}ms"
-
-    total_duration = (time.perf_counter() - overall_start) * 1000
-    output['timings']['total_python'] = f"{total_duration:.2f}ms"
-
-except Exception as e:
-    import traceback
-    output['error'] = str(e)
-    output['stderr'] = traceback.format_exc()
-finally:
-    output['stdout'] = sys.stdout.getvalue()
-    output['stderr'] = sys.stderr.getvalue()
-
-    sys.stdout = old_stdout
-    sys.stderr = old_stderr
-
-output
-		`);
+		// Execute Django and get HTML output
+		// ASGI requests run on Pyodide's asyncio loop, so they are awaited
+		type HandlerOutput = {
+			body: Uint8Array;
+			status: string | null;
+			headers: Array<[string, string]>;
+			timings: Record<string, number>;
+			exception: PythonException | null;
+			queries: SqlQuery[];
+			profile?: PythonProfile;
+		};
+		const handlerArgs = [environ, bodyBytes, onStreamStart, onStreamChunk, profile];
+		const result = asgi
+			? await callRuntimeAsync<HandlerOutput>(pyodide, 'handle_asgi_request', ...handlerArgs)
+			: callRuntime<HandlerOutput>(pyodide, 'handle_request', ...handlerArgs);
 
 		const pythonExecDuration = performance.now() - pythonExecStartTime;
 
-		const stdout = result.get('stdout') || '';
-		const stderr = result.get('stderr') || '';
-		const error = result.get('error');
-		const html = result.get('html');
-		const status = result.get('status');
-		const pyHeaders = result.get('headers')?.toJs() || [];
-		const timings = result.get('timings')?.toJs() || {};
+		const { stdout, stderr, error, status } = result;
+		const requestHeaders = headersFromEnviron(environ).filter(([, value]) => value !== '');
+		const exception = result.exception ?? undefined;
+		const queries = result.queries ?? [];
+		const profileResult = result.profile;
+		const pyHeaders = result.headers || [];
+		const timings: Record<string, number> = {
+			...(result.timings || {}),
+			run_python: pythonExecDuration
+		};
 
 		// Log Python execution timings
-		if (Object.keys(timings).length > 0) {
-			log(`Python execution breakdown:`, 'info', 'worker');
-			for (const [key, value] of Object.entries(timings)) {
-				log(`  - ${key}: ${value}`, 'info', 'worker');
-			}
+		log(`Python execution breakdown:`, 'info', 'worker');
+		for (const [key, value] of Object.entries(timings)) {
+			log(`  - ${key}: ${value.toFixed(2)}ms`, 'info', 'worker');
 		}
-		log(`Total runPythonAsync call: ${pythonExecDuration.toFixed(2)}ms`, 'info', 'worker');
 
 		// Extract Set-Cookie headers, Location header (for redirects), and Content-Type
-		const cookiesToSet: Array<{ name: string; value: string }> = [];
+		const cookiesToSet: HttpCookie[] = [];
 		let redirectLocation: string | undefined;
 		let responseContentType: string | undefined;
+		let isAttachment = false;
 
 		for (const [name, value] of pyHeaders) {
 			if (name.toLowerCase() === 'set-cookie') {
-				// Parse cookie name/value from Set-Cookie header
-				const parts = value.split(';')[0].split('=');
-				if (parts.length >= 2) {
-					cookiesToSet.push({
-						name: parts[0].trim(),
-						value: parts.slice(1).join('=').trim()
-					});
-				}
+				const cookie = parseSetCookie(value, pathOnly);
+				if (cookie) cookiesToSet.push(cookie);
 			} else if (name.toLowerCase() === 'location') {
 				redirectLocation = value;
 			} else if (name.toLowerCase() === 'content-type') {
 				responseContentType = value;
+			} else if (name.toLowerCase() === 'content-disposition') {
+				isAttachment = /^\s*attachment/i.test(value);
 			}
 		}
 
@@ -316,27 +361,49 @@ output
 				success: false,
 				output: stdout,
 				error: stderr || error,
-				logs: getLogs()
+				exception,
+				requestHeaders,
+				logs: getLogs(),
+				timings,
+				queries,
+				profile: profileResult
 			};
 		}
 
 		const execTime = ((Date.now() - startExec) / 1000).toFixed(2);
 		log(`${pathOnly} (${status}) in ${execTime}s`, 'success');
 
-		// Process HTML to inline static files before returning
-		let processedHtml = html;
-		if (html && responseContentType?.includes('text/html')) {
-			processedHtml = await inlineStaticFiles(html);
+		// HTML pages render in the preview (with static files inlined); every other body is
+		// returned as bytes for the response viewer
+		const responseBody = result.body ?? new Uint8Array();
+		const isHtml = !isAttachment && (responseContentType ?? 'text/html').includes('text/html');
+		let processedHtml: string | undefined;
+		if (isHtml) {
+			const html = decodeBody(responseBody, responseContentType);
+			processedHtml = html;
+			if (html) {
+				const inlineStart = performance.now();
+				processedHtml = await inlineStaticFiles(html);
+				timings.static_inlining = performance.now() - inlineStart;
+			}
 		}
 
 		return {
 			success: true,
 			output: stdout,
 			html: processedHtml || undefined,
+			body: isHtml ? undefined : responseBody,
+			headers: pyHeaders,
+			requestHeaders,
+			contentType: responseContentType,
 			cookies: cookiesToSet,
 			status: status || undefined,
+			exception,
 			redirectTo: redirectLocation,
-			logs: getLogs()
+			logs: getLogs(),
+			timings,
+			queries,
+			profile: profileResult
 		};
 	} catch (error) {
 		log(`Django execution error: ${error}`, 'error');
@@ -0,0 +1,89 @@
+"""Serve a small project through playground_runtime's ASGI entry points without threads.
+
+Run by playground-runtime.spec.ts with the runtime's directory as the only argument.
+Thread starts raise as they do in Pyodide; the results are printed as JSON.
+"""
+
+import asyncio
+import json
+import sys
+import threading
+
+from harness import open_workspace, stub_pyodide
+
+
+def _no_threads(self):
+    raise RuntimeError("can't start new thread")
+
+
+threading.Thread.start = _no_threads
+stub_pyodide()
+
+PROJECT = {
+    'manage.py': "import os\nos.environ.setdefault('DJANGO_SETTINGS_MODULE', 'proj.settings')\n",
+    'proj/__init__.py': '',
+    'proj/settings.py': '''
+SECRET_KEY = 'test'
+DEBUG = True
+ALLOWED_HOSTS = ['*']
+ROOT_URLCONF = 'proj.urls'
+STATIC_URL = 'static/'
+INSTALLED_APPS = ['django.contrib.staticfiles', 'django.contrib.auth', 'django.contrib.contenttypes']
+DATABASES = {'default': {'ENGINE': 'django.db.backends.sqlite3', 'NAME': 'db.sqlite3'}}
+''',
+    'proj/urls.py': '''
+from django.http import HttpResponse
+from django.urls import path
+
+
+def sync_view(request):
+    return HttpResponse('sync')
+
+
+async def async_view(request):
+    return HttpResponse('async')
+
+
+urlpatterns = [path('sync/', sync_view), path('async/', async_view)]
+''',
+    'proj/asgi.py': '''
+from asgiref.sync import sync_to_async
+from django.core.asgi import get_asgi_application
+
+django_application = get_asgi_application()
+
+
+async def application(scope, receive, send):
+    if scope['type'] != 'websocket':
+        return await django_application(scope, receive, send)
+    await receive()
+    text = await sync_to_async(lambda: 'from sync code')()
+    await send({'type': 'websocket.accept'})
+    await send({'type': 'websocket.send', 'text': text})
+    await send({'type': 'websocket.close', 'code': 1000})
+''',
+}
+
+
+async def main():
+    import playground_runtime
+
+    results = {}
+    for path in ('/sync/', '/async/'):
+        output = await playground_runtime.handle_asgi_request(
+            {'REQUEST_METHOD': 'GET', 'PATH_INFO': path, 'QUERY_STRING': ''}
+        )
+        results[path] = {'status': output['status'], 'error': output['error']}
+
+    events = []
+    playground_runtime.websocket_connect('test', {'PATH_INFO': '/ws/'}, [], events.append)
+    for _ in range(20):
+        await asyncio.sleep(0)
+    results['websocket'] = events
+    return results
+
+
+if __name__ == '__main__':
+    open_workspace(sys.argv[1], PROJECT)
+    # asyncio.run would shut the default executor down from a thread
+    print(json.dumps(asyncio.new_event_loop().run_until_complete(main())))
@@ -0,0 +1,110 @@
+"""Run requests through playground_runtime concurrently and report what each captured.
+
+Run by playground-runtime.spec.ts with the runtime's directory as the only argument.
+The views and the websocket consumer print and log around awaits, so they interleave on
+the asyncio loop as overlapping executes do in the worker; the results are printed as JSON.
+"""
+
+import asyncio
+import json
+import sys
+
+from harness import open_workspace, stub_pyodide
+
+stub_pyodide()
+
+PROJECT = {
+    'manage.py': "import os\nos.environ.setdefault('DJANGO_SETTINGS_MODULE', 'proj.settings')\n",
+    'proj/__init__.py': '',
+    'proj/settings.py': '''
+SECRET_KEY = 'test'
+DEBUG = True
+ALLOWED_HOSTS = ['*']
+ROOT_URLCONF = 'proj.urls'
+STATIC_URL = 'static/'
+INSTALLED_APPS = []
+DATABASES = {}
+''',
+    'proj/urls.py': '''
+import asyncio
+import logging
+
+from django.http import HttpResponse
+from django.urls import path
+
+logger = logging.getLogger('proj')
+
+
+async def view(request, name):
+    for step in range(3):
+        print(f'{name} print {step}')
+        logger.warning('%s log %s', name, step)
+        await asyncio.sleep(0)
+    return HttpResponse(name)
+
+
+urlpatterns = [path('<name>/', view)]
+''',
+    'proj/asgi.py': '''
+import asyncio
+import logging
+
+from django.core.asgi import get_asgi_application
+
+django_application = get_asgi_application()
+logger = logging.getLogger('proj')
+
+
+async def application(scope, receive, send):
+    if scope['type'] != 'websocket':
+        return await django_application(scope, receive, send)
+    await receive()
+    await send({'type': 'websocket.accept'})
+    while (message := await receive())['type'] == 'websocket.receive':
+        for step in range(3):
+            print(f'websocket print {step}')
+            logger.warning('websocket log %s', step)
+            await asyncio.sleep(0)
+        await send({'type': 'websocket.send', 'text': message['text']})
+''',
+}
+
+
+def captured(output):
+    return {
+        'stdout': output['stdout'].splitlines(),
+        'records': [record['message'] for record in output['records']],
+    }
+
+
+async def main():
+    import playground_runtime
+
+    outputs = await asyncio.gather(*(
+        playground_runtime.handle_asgi_request(
+            {'REQUEST_METHOD': 'GET', 'PATH_INFO': f'/{name}/', 'QUERY_STRING': ''}
+        )
+        for name in ('first', 'second')
+    ))
+    results = {'requests': [captured(output) for output in outputs]}
+
+    events = []
+    playground_runtime.websocket_connect('test', {'PATH_INFO': '/ws/'}, [], events.append)
+    await asyncio.sleep(0)
+    playground_runtime.websocket_receive('test', 'hello')
+    output = await playground_runtime.handle_asgi_request(
+        {'REQUEST_METHOD': 'GET', 'PATH_INFO': '/third/', 'QUERY_STRING': ''}
+    )
+    for _ in range(5):
+        await asyncio.sleep(0)
+    results['alongside_websocket'] = captured(output)
+    results['websocket'] = [
+        {**captured(event), 'type': event['type']} if event['type'] == 'playground.output' else event
+        for event in events
+    ]
+    return results
+
+
+if __name__ == '__main__':
+    open_workspace(sys.argv[1], PROJECT)
+    print(json.dumps(asyncio.new_event_loop().run_until_complete(main())))
@@ -0,0 +1,40 @@
+"""Setup shared by the fixtures that drive playground_runtime under CPython."""
+
+import os
+import sys
+import tempfile
+import types
+
+
+def stub_pyodide():
+    """Stand in for the Pyodide-only modules the runtime imports.
+
+    The runtime converts values for JS with pyodide.ffi.to_js and js.Object.
+    """
+    ffi = types.ModuleType('pyodide.ffi')
+    ffi.to_js = lambda value, **kwargs: value
+    sys.modules['pyodide'] = types.ModuleType('pyodide')
+    sys.modules['pyodide.ffi'] = ffi
+    js = types.ModuleType('js')
+    js.Object = types.SimpleNamespace(fromEntries=dict)
+    sys.modules['js'] = js
+
+
+def write_files(workspace, files):
+    for name, source in files.items():
+        os.makedirs(os.path.join(workspace, os.path.dirname(name)), exist_ok=True)
+        with open(os.path.join(workspace, name), 'w') as f:
+            f.write(source)
+
+
+def open_workspace(runtime_dir, files):
+    """Write the project to a temporary workspace and run from it, as the worker does.
+
+    Returns the workspace directory.
+    """
+    sys.path.insert(0, os.path.abspath(runtime_dir))
+    workspace = tempfile.mkdtemp()
+    write_files(workspace, files)
+    os.chdir(workspace)
+    sys.path.insert(0, workspace)
+    return workspace
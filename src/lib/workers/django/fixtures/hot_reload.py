@@ -0,0 +1,84 @@
+"""Edit modules of a running project and reload them with playground_runtime.reload_modules.
+
+Run by playground-runtime.spec.ts with the runtime's directory as the only argument.
+The response bodies and the reloaded modules after each edit are printed as JSON.
+"""
+
+import json
+import os
+import sys
+
+from harness import open_workspace, stub_pyodide, write_files
+
+stub_pyodide()
+
+PROJECT = {
+    'manage.py': "import os\nos.environ.setdefault('DJANGO_SETTINGS_MODULE', 'proj.settings')\n",
+    'proj/__init__.py': '',
+    'proj/settings.py': '''
+SECRET_KEY = 'test'
+DEBUG = True
+ALLOWED_HOSTS = ['*']
+ROOT_URLCONF = 'proj.urls'
+STATIC_URL = 'static/'
+INSTALLED_APPS = ['django.contrib.staticfiles', 'django.contrib.auth', 'django.contrib.contenttypes']
+DATABASES = {'default': {'ENGINE': 'django.db.backends.sqlite3', 'NAME': 'db.sqlite3'}}
+''',
+    'proj/urls.py': '''
+from django.urls import path
+
+from myapp import views
+
+urlpatterns = [path('greeting/', views.greeting)]
+''',
+    'myapp/__init__.py': '',
+    'myapp/forms.py': '''
+from django import forms
+
+
+class GreetingForm(forms.Form):
+    name = forms.CharField(label='Hello')
+''',
+    'myapp/views/__init__.py': 'from .greeting import greeting\n',
+    'myapp/views/greeting.py': '''
+from django.http import HttpResponse
+
+from ..forms import GreetingForm
+
+
+def greeting(request):
+    return HttpResponse(GreetingForm().fields['name'].label)
+''',
+}
+
+# Each edit and the paths handed to reload_modules, as the hot reload sends them
+EDITS = [
+    {'myapp/forms.py': PROJECT['myapp/forms.py'].replace("'Hello'", "'Hi'")},
+    {
+        'myapp/views/greeting.py': PROJECT['myapp/views/greeting.py'].replace(
+            ".label)", ".label.upper())"
+        )
+    },
+]
+
+
+def get(path):
+    import playground_runtime
+
+    output = playground_runtime.handle_request(
+        {'REQUEST_METHOD': 'GET', 'PATH_INFO': path, 'QUERY_STRING': ''}
+    )
+    return output['error'] or bytes(output['body']).decode()
+
+
+if __name__ == '__main__':
+    workspace = open_workspace(sys.argv[1], PROJECT)
+    import playground_runtime
+
+    results = {'bodies': [get('/greeting/')], 'reloaded': []}
+    for edit in EDITS:
+        write_files(workspace, edit)
+        output = playground_runtime.reload_modules(list(edit))
+        results['reloaded'].append(output['error'] or output['reloaded'])
+        results['bodies'].append(get('/greeting/'))
+    print(json.dumps(results))
@@ -0,0 +1,81 @@
+import { spawnSync } from 'node:child_process';
+import { fileURLToPath } from 'node:url';
+import { describe, expect, it } from 'vitest';
+
+// A CPython with Django and asgiref installed; the runtime's Pyodide-only imports are stubbed
+const python = process.env.PLAYGROUND_PYTHON ?? 'python3';
+const runtimeDir = fileURLToPath(new URL('.', import.meta.url));
+
+// Runs a fixture script against the runtime and returns the JSON it prints last
+function runFixture(name: string) {
+	const fixture = fileURLToPath(new URL(`./fixtures/${name}`, import.meta.url));
+	const run = spawnSync(python, [fixture, runtimeDir], { encoding: 'utf-8', timeout: 60_000 });
+	return JSON.parse(run.stdout.trim().split('\n').pop() || '{}');
+}
+
+const hasDjango = spawnSync(python, ['-c', 'import django, asgiref']).status === 0;
+
+describe.skipIf(!hasDjango)('playground_runtime without threads', () => {
+	const results = runFixture('asgi_without_threads.py');
+
+	it('serves sync and async views through ASGIHandler', () => {
+		expect(results['/sync/']).toEqual({ status: '200 OK', error: null });
+		expect(results['/async/']).toEqual({ status: '200 OK', error: null });
+	});
+
+	it('runs sync_to_async in websocket applications', () => {
+		expect(results.websocket).toEqual([
+			{ type: 'websocket.accept' },
+			{ type: 'websocket.send', text: 'from sync code' },
+			{ type: 'websocket.close', code: 1000 }
+		]);
+	});
+});
+
+describe.skipIf(!hasDjango)('reload_modules', () => {
+	const results = runFixture('hot_reload.py');
+
+	it('reloads the modules that import an edited module', () => {
+		expect(results.bodies.slice(0, 2)).toEqual(['Hello', 'Hi']);
+		expect(results.reloaded[0]).toEqual([
+			'myapp.forms',
+			'myapp.views.greeting',
+			'myapp.views',
+			'proj.urls'
+		]);
+	});
+
+	it('reloads a views package that re-exports an edited submodule', () => {
+		expect(results.bodies[2]).toBe('HI');
+		expect(results.reloaded[1]).toEqual(['myapp.views.greeting', 'myapp.views', 'proj.urls']);
+	});
+});
+
+describe.skipIf(!hasDjango)('concurrent requests', () => {
+	const results = runFixture('concurrent_capture.py');
+
+	it('capture the prints and log records of each request apart', () => {
+		expect(results.requests).toEqual(
+			['first', 'second'].map((name) => ({
+				stdout: [0, 1, 2].map((step) => `${name} print ${step}`),
+				records: [0, 1, 2].map((step) => `${name} log ${step}`)
+			}))
+		);
+	});
+
+	it('send what a websocket consumer prints and logs with its own events', () => {
+		expect(results.alongside_websocket).toEqual({
+			stdout: ['third print 0', 'third print 1', 'third print 2'],
+			records: ['third log 0', 'third log 1', 'third log 2']
+		});
+		expect(results.websocket).toEqual([
+			{ type: 'websocket.accept' },
+			{
+				type: 'playground.output',
+				stdout: ['websocket print 0', 'websocket print 1', 'websocket print 2'],
+				records: ['websocket log 0', 'websocket log 1', 'websocket log 2']
+			},
+			{ type: 'websocket.send', text: 'hello' }
+		]);
+	});
+});
@@ -0,0 +1,1059 @@
+"""Python side of the playground worker.
+
+TypeScript calls these functions through pyodide with arguments converted by toPy,
+so request data and credentials never become part of Python source.
+
+Every entry point returns a dict with 'stdout', 'stderr' and 'error' (None on success)
+plus its own fields; stdout and stderr are captured while it runs, and so are the records
+of the logging module ('records', see _RecordingHandler).
+"""
+
+import ast
+import asyncio
+import contextvars
+import cProfile
+import importlib
+import linecache
+import logging
+import os
+import pstats
+import re
+import reprlib
+import sys
+import time
+import traceback
+from concurrent.futures import Future, ThreadPoolExecutor
+from contextlib import ExitStack, contextmanager
+from glob import glob
+from http import HTTPStatus
+from io import BytesIO, StringIO
+
+# Used when the project names no settings module and has no <package>/settings.py
+DEFAULT_SETTINGS_MODULE = 'myproject.settings'
+
+# setdefault('DJANGO_SETTINGS_MODULE', '<module>') or ['DJANGO_SETTINGS_MODULE'] = '<module>'
+_SETTINGS_MODULE_PATTERN = re.compile(
+    r"""DJANGO_SETTINGS_MODULE['"]\]?\s*[,=]\s*['"]([\w.]+)['"]"""
+)
+
+# Shortened reprs of the local variables in tracebacks
+_locals_repr = reprlib.Repr()
+_locals_repr.maxstring = 200
+_locals_repr.maxother = 200
+
+# Flame graph frames narrower than this fraction of the profile are left out
+_FLAME_MIN_FRACTION = 0.002
+_FLAME_MAX_DEPTH = 100
+
+
+def _describe_exception(exc):
+    """An exception and its traceback frames (oldest first) for the error panel.
+
+    Frames of workspace files have paths relative to the workspace and 'workspace' set;
+    library frames keep their absolute paths.
+    """
+    workspace = os.path.abspath(os.getcwd())
+    frames = []
+    for frame, lineno in traceback.walk_tb(exc.__traceback__):
+        filename = frame.f_code.co_filename
+        in_workspace = not filename.startswith('<') and os.path.abspath(filename).startswith(
+            workspace + os.sep
+        )
+        local_vars = {}
+        for name, value in frame.f_locals.items():
+            try:
+                local_vars[name] = _locals_repr.repr(value)
+            except Exception as e:
+                local_vars[name] = f'<unrepresentable {type(value).__name__}: {e!r}>'
+        frames.append({
+            'filename': os.path.relpath(filename, workspace) if in_workspace else filename,
+            'lineno': lineno,
+            'name': frame.f_code.co_name,
+            'line': linecache.getline(filename, lineno).strip(),
+            'locals': local_vars,
+            'workspace': in_workspace,
+        })
+
+    # Template errors also point at the line of the template (with DEBUG)
+    template = None
+    template_debug = getattr(exc, 'template_debug', None)
+    if template_debug and template_debug.get('name'):
+        name = os.path.abspath(template_debug['name'])
+        if name.startswith(workspace + os.sep):
+            template = {'filename': os.path.relpath(name, workspace), 'lineno': template_debug['line']}
+
+    exc_type = type(exc)
+    module = exc_type.__module__
+    return {
+        'type': exc_type.__qualname__ if module == 'builtins' else f'{module}.{exc_type.__qualname__}',
+        'message': str(exc),
+        'frames': frames,
+        'template': template,
+    }
+
+
+class _RecordingHandler(logging.Handler):
+    """Root logger handler adding each record to the output of the running call or task.
+
+    Records are dicts with the level name, logger name, message (with the traceback of
+    exc_info), location and time in ms; workspace paths are relative to the workspace.
+    Records emitted outside any call go to the real stderr.
+    """
+
+    def __init__(self):
+        super().__init__()
+        self.set_name('playground')
+
+    def emit(self, record):
+        try:
+            capture = _capture.get()
+            if capture is None:
+                sys.__stderr__.write(self.format(record) + '\n')
+                return
+            message = record.getMessage()
+            if record.exc_info:
+                message += '\n' + ''.join(traceback.format_exception(*record.exc_info)).rstrip()
+            workspace = os.path.abspath(os.getcwd())
+            filename = os.path.abspath(record.pathname)
+            in_workspace = not record.pathname.startswith('<') and filename.startswith(
+                workspace + os.sep
+            )
+            capture.output['records'].append({
+                'level': record.levelname,
+                'logger': record.name,
+                'message': message,
+                'filename': os.path.relpath(filename, workspace) if in_workspace else record.pathname,
+                'lineno': record.lineno,
+                'function': record.funcName,
+                'workspace': in_workspace,
+                'timestamp': record.created * 1000,
+            })
+        except Exception:
+            self.handleError(record)
+
+
+_record_handler = _RecordingHandler()
+
+
+def _install_record_handler():
+    """Attach the recording handler to the root logger, where every logger propagates.
+
+    Configuring logging (Django's LOGGING with a 'root' entry) removes it, so this runs
+    again after setup. A handler left by an earlier import of this module is replaced.
+    """
+    root = logging.getLogger()
+    if _record_handler in root.handlers:
+        return
+    for handler in root.handlers[:]:
+        if handler.get_name() == 'playground':
+            root.removeHandler(handler)
+    root.addHandler(_record_handler)
+
+
+class _Capture:
+    """The prints and log records of one call, or of a task running on its own."""
+
+    def __init__(self, output):
+        self.output = output
+        self.stdout = StringIO()
+        self.stderr = StringIO()
+
+    def take(self):
+        """What was printed and logged since the last take, leaving the capture empty."""
+        taken = {
+            'stdout': self.stdout.getvalue(),
+            'stderr': self.stderr.getvalue(),
+            'records': self.output['records'],
+        }
+        for stream in (self.stdout, self.stderr):
+            stream.seek(0)
+            stream.truncate()
+        self.output['records'] = []
+        return taken
+
+
+# The capture of the running call; asyncio tasks copy it when created, so concurrent ASGI
+# requests each keep their own
+_capture = contextvars.ContextVar('playground_capture', default=None)
+
+
+class _CapturedStream:
+    """Stands in for sys.stdout or sys.stderr, writing to the capture of the running call.
+
+    Writes outside any call go to the stream it replaced.
+    """
+
+    def __init__(self, name, stream):
+        self.name = name
+        self.stream = stream
+
+    def _target(self):
+        capture = _capture.get()
+        return self.stream if capture is None else getattr(capture, self.name)
+
+    def write(self, text):
+        return self._target().write(text)
+
+    def flush(self):
+        self._target().flush()
+
+    def writable(self):
+        return True
+
+    def __getattr__(self, name):
+        return getattr(self.stream, name)
+
+
+def _install_captured_streams():
+    """Replace sys.stdout and sys.stderr with captured streams, once.
+
+    They stay installed: calls overlap on the asyncio loop, so none can put back the stream
+    it found. Streams left by an earlier import of this module are replaced.
+    """
+    for name in ('stdout', 'stderr'):
+        stream = getattr(sys, name)
+        if isinstance(stream, _CapturedStream):
+            continue
+        if type(stream).__name__ == '_CapturedStream':
+            stream = stream.stream
+        setattr(sys, name, _CapturedStream(name, stream))
+
+
+@contextmanager
+def _captured(output):
+    """Capture stdout/stderr and log records into output and record any exception as the error."""
+    _install_captured_streams()
+    _install_record_handler()
+    capture = _Capture(output)
+    token = _capture.set(capture)
+    try:
+        yield
+    except Exception as e:
+        output['error'] = str(e)
+        output['exception'] = _describe_exception(e)
+        traceback.print_exc()
+    finally:
+        _capture.reset(token)
+        output['stdout'] = capture.stdout.getvalue()
+        output['stderr'] = capture.stderr.getvalue()
+
+
+def _new_output(**fields):
+    return {'stdout': '', 'stderr': '', 'error': None, 'exception': None, 'records': [], **fields}
+
+
+@contextmanager
+def _recording_request_exceptions(output):
+    """Record an exception raised by a view as the output's 'exception'.
+
+    Django still turns it into a 500 response (the technical 500 page with DEBUG).
+    """
+    from django.core.signals import got_request_exception
+
+    capture = _capture.get()
+
+    def record(sender, **kwargs):
+        # The signal is global; requests running concurrently record their own exceptions
+        if _capture.get() is not capture:
+            return
+        exc = sys.exc_info()[1]
+        if exc is not None:
+            output['exception'] = _describe_exception(exc)
+
+    got_request_exception.connect(record, weak=False)
+    try:
+        yield
+    finally:
+        got_request_exception.disconnect(record)
+
+
+def _workspace_caller(workspace):
+    """The innermost workspace frame of the current stack, as {filename, lineno, name}."""
+    for frame in reversed(traceback.extract_stack()):
+        if frame.filename.startswith('<'):
+            continue
+        filename = os.path.abspath(frame.filename)
+        if filename.startswith(workspace + os.sep):
+            return {
+                'filename': os.path.relpath(filename, workspace),
+                'lineno': frame.lineno,
+                'name': frame.name,
+            }
+    return None
+
+
+@contextmanager
+def _recording_queries(output):
+    """Record the SQL run on every database connection as the output's 'queries'.
+
+    Each query has its SQL with the parameters filled in ('sql') and with placeholders
+    ('raw', which is the same for similar queries), the parameters, its duration in ms and
+    the workspace line that ran it.
+    """
+    from django.db import connections
+
+    queries = output['queries']
+    workspace = os.path.abspath(os.getcwd())
+    capture = _capture.get()
+
+    def record(execute, sql, params, many, context):
+        # Connections can be shared with requests running concurrently, which record their own
+        if _capture.get() is not capture:
+            return execute(sql, params, many, context)
+        start = time.perf_counter()
+        try:
+            return execute(sql, params, many, context)
+        finally:
+            duration = (time.perf_counter() - start) * 1000
+            connection = context['connection']
+            shown = sql
+            if not many:
+                try:
+                    shown = connection.ops.last_executed_query(context['cursor'], sql, params)
+                except Exception:
+                    pass
+            queries.append({
+                'alias': connection.alias,
+                'sql': shown,
+                'raw': sql,
+                'params': [_locals_repr.repr(param) for param in (params or [])],
+                'many': many,
+                'duration': duration,
+                'location': _workspace_caller(workspace),
+            })
+
+    # With a running loop, asgiref gives async code its own connections; sync code run by
+    # the inline executor (loop hidden) uses the thread's, so both are wrapped
+    wrapped = connections.all()
+    loop = asyncio.events._get_running_loop()
+    if loop is not None:
+        asyncio.events._set_running_loop(None)
+        try:
+            wrapped += [c for c in connections.all() if all(c is not w for w in wrapped)]
+        finally:
+            asyncio.events._set_running_loop(loop)
+
+    with ExitStack() as stack:
+        for connection in wrapped:
+            stack.enter_context(connection.execute_wrapper(record))
+        yield
+
+
+@contextmanager
+def _profiling(output, enabled):
+    """Run the block under cProfile when enabled, setting the output's 'profile'."""
+    if not enabled:
+        yield
+        return
+    profiler = cProfile.Profile()
+    profiler.enable()
+    try:
+        yield
+    finally:
+        profiler.disable()
+        output['profile'] = _describe_profile(profiler)
+
+
+def _describe_profile(profiler):
+    """The functions a profile saw and their call tree, for the profile panel (times in ms).
+
+    Functions have their call counts, own time and cumulative time; paths are relative to
+    the workspace for workspace files. The call tree ('roots') is rebuilt from the caller
+    statistics, splitting the time of functions called from several places in proportion
+    to those calls, as cProfile keeps no full stacks.
+    """
+    workspace = os.path.abspath(os.getcwd())
+    stats = pstats.Stats(profiler).stats
+    keys = list(stats)
+    index = {key: i for i, key in enumerate(keys)}
+
+    functions = []
+    callees = {key: [] for key in keys}
+    for key in keys:
+        filename, lineno, name = key
+        primitive_calls, calls, own, cumulative, callers = stats[key]
+        in_workspace = not filename.startswith(('<', '~')) and os.path.abspath(filename).startswith(
+            workspace + os.sep
+        )
+        functions.append({
+            'filename': os.path.relpath(filename, workspace) if in_workspace else filename,
+            'lineno': lineno,
+            'name': name,
+            'workspace': in_workspace,
+            'calls': calls,
+            'primitive': primitive_calls,
+            'own': own * 1000,
+            'cumulative': cumulative * 1000,
+        })
+        for caller, (_, _, _, edge_cumulative) in callers.items():
+            if caller in callees:
+                callees[caller].append((key, edge_cumulative * 1000))
+
+    total = sum(function['own'] for function in functions)
+    min_value = total * _FLAME_MIN_FRACTION
+
+    def node(key, value, path):
+        children = []
+        cumulative = stats[key][3] * 1000
+        if len(path) < _FLAME_MAX_DEPTH and cumulative > 0:
+            scale = value / cumulative
+            for callee, edge in callees[key]:
+                child_value = edge * scale
+                if callee not in path and child_value >= min_value:
+                    children.append(node(callee, child_value, path | {callee}))
+        children.sort(key=lambda child: -child['value'])
+        return {'function': index[key], 'value': value, 'children': children}
+
+    roots = [
+        node(key, stats[key][3] * 1000, {key})
+        for key in keys
+        if not stats[key][4] and stats[key][3] * 1000 >= min_value
+    ]
+    roots.sort(key=lambda root: -root['value'])
+    return {'total': total, 'functions': functions, 'roots': roots}
+
+
+def _to_bytes(data):
+    """Bytes from a JS Uint8Array (JsProxy), bytes or str."""
+    if data is None:
+        return b''
+    if hasattr(data, 'to_bytes'):
+        return data.to_bytes()
+    if isinstance(data, str):
+        return data.encode('utf-8')
+    return bytes(data)
+
+
+def _discover_settings_module():
+    """The settings module named by manage.py or a <package>/wsgi.py or asgi.py.
+
+    Falls back to the first <package>/settings.py, so a renamed project still starts.
+    """
+    for path in ['manage.py', *sorted(glob('*/wsgi.py')), *sorted(glob('*/asgi.py'))]:
+        try:
+            with open(path) as f:
+                match = _SETTINGS_MODULE_PATTERN.search(f.read())
+        except OSError:
+            continue
+        if match:
+            return match.group(1)
+
+    for path in sorted(glob('*/settings.py')) + sorted(glob('*/settings/__init__.py')):
+        return path.split('/')[0] + '.settings'
+    return DEFAULT_SETTINGS_MODULE
+
+
+def setup_django():
+    """Configure Django from the project's settings once. Returns True if it ran now."""
+    import django
+    from django.conf import settings
+
+    # Force synchronous mode for Django ORM operations
+    os.environ['DJANGO_ALLOW_ASYNC_UNSAFE'] = 'true'
+
+    if settings.configured:
+        return False
+    os.environ.setdefault('DJANGO_SETTINGS_MODULE', _discover_settings_module())
+    django.setup()
+
+    # Stream handlers made by the logging config hold the stream captured during setup;
+    # their records already reach the Console through the recording handler
+    loggers = [logging.getLogger(), *logging.Logger.manager.loggerDict.values()]
+    for logger in loggers:
+        for handler in getattr(logger, 'handlers', []):
+            if isinstance(handler, logging.StreamHandler) and handler.stream in (sys.stdout, sys.stderr):
+                handler.setStream(sys.__stderr__)
+    _install_record_handler()
+    return True
+
+
+def run_code(source):
+    """Run plain Python in the interpreter's __main__ namespace."""
+    import __main__
+
+    output = _new_output()
+    with _captured(output):
+        exec(compile(source, '<playground>', 'exec'), __main__.__dict__)
+    return output
+
+
+def handle_request(environ, body=None, on_stream_start=None, on_stream_chunk=None,
+                   profile=False):
+    """Run one request through Django's WSGI handler (with static file serving).
+
+    environ holds the CGI keys (REQUEST_METHOD, PATH_INFO, QUERY_STRING, CONTENT_TYPE,
+    CONTENT_LENGTH, HTTP_*); the server and wsgi.* keys are added here.
+
+    With the stream callbacks, streaming responses (StreamingHttpResponse) are also
+    reported as they are produced: on_stream_start(status, headers) once, then
+    on_stream_chunk(bytes) per chunk. The full body is returned either way.
+
+    With profile, the handler runs under cProfile and the output has a 'profile'
+    (see _describe_profile).
+    """
+    output = _new_output(body=b'', status=None, headers=[], timings={}, queries=[])
+    timings = output['timings']
+
+    with _captured(output):
+        overall_start = time.perf_counter()
+
+        import_start = time.perf_counter()
+        from django.core.handlers.wsgi import WSGIHandler
+        from django.contrib.staticfiles.handlers import StaticFilesHandler
+        timings['imports'] = (time.perf_counter() - import_start) * 1000
+
+        setup_start = time.perf_counter()
+        setup_django()
+        timings['django_setup'] = (time.perf_counter() - setup_start) * 1000
+
+        environ_start = time.perf_counter()
+        wsgi_environ = {
+            'SERVER_NAME': 'localhost',
+            'SERVER_PORT': '8000',
+            'SERVER_PROTOCOL': 'HTTP/1.1',
+            'SCRIPT_NAME': '',
+            **{str(key): str(value) for key, value in dict(environ).items()},
+            'wsgi.version': (1, 0),
+            'wsgi.url_scheme': 'http',
+            'wsgi.input': BytesIO(_to_bytes(body)),
+            'wsgi.errors': sys.stderr,
+            'wsgi.multithread': False,
+            'wsgi.multiprocess': False,
+            'wsgi.run_once': False,
+        }
+        timings['environ_creation'] = (time.perf_counter() - environ_start) * 1000
+
+        handler_start = time.perf_counter()
+        handler = StaticFilesHandler(WSGIHandler())
+        timings['handler_creation'] = (time.perf_counter() - handler_start) * 1000
+
+        response = {'status': None, 'headers': [], 'body': []}
+
+        def start_response(status, headers, exc_info=None):
+            if exc_info:
+                try:
+                    if response['headers']:
+                        raise exc_info[1].with_traceback(exc_info[2])
+                finally:
+                    exc_info = None
+            elif response['headers']:
+                raise RuntimeError('Response already started')
+
+            response['status'] = status
+            response['headers'] = headers
+            return response['body'].append
+
+        exec_start = time.perf_counter()
+        with (
+            _recording_request_exceptions(output),
+            _recording_queries(output),
+            _profiling(output, profile),
+        ):
+            result = handler(wsgi_environ, start_response)
+            stream = on_stream_chunk is not None and getattr(result, 'streaming', False)
+            if stream:
+                from pyodide.ffi import to_js
+
+                on_stream_start(response['status'], to_js([list(h) for h in response['headers']]))
+            try:
+                for chunk in result:
+                    if chunk:
+                        response['body'].append(chunk)
+                        if stream:
+                            on_stream_chunk(to_js(chunk))
+            finally:
+                if hasattr(result, 'close'):
+                    result.close()
+        timings['handler_execution'] = (time.perf_counter() - exec_start) * 1000
+
+        response_start = time.perf_counter()
+        # Raw bytes - the caller decodes HTML with the response's charset
+        output['body'] = b''.join(response['body'])
+        output['status'] = response['status']
+        output['headers'] = [list(header) for header in response['headers']]
+        timings['response_processing'] = (time.perf_counter() - response_start) * 1000
+
+        timings['total_python'] = (time.perf_counter() - overall_start) * 1000
+
+    return output
+
+
+class _InlineExecutor(ThreadPoolExecutor):
+    """Runs submitted functions at once, on the calling thread.
+
+    Pyodide has no threads, so work handed to sync_to_async (sync middleware and views,
+    the async ORM) runs inline. The running loop is hidden meanwhile, as it is in a worker
+    thread, so Django's async-unsafe checks pass there and still fire in async code.
+    """
+
+    def submit(self, fn, /, *args, **kwargs):
+        future = Future()
+        loop = asyncio.events._get_running_loop()
+        asyncio.events._set_running_loop(None)
+        try:
+            future.set_result(fn(*args, **kwargs))
+        except BaseException as e:
+            future.set_exception(e)
+        finally:
+            asyncio.events._set_running_loop(loop)
+        return future
+
+
+class _InlineExecutors(dict):
+    """Stands in for SyncToAsync.context_to_thread_executor: every context gets the inline
+    executor and none is stored.
+
+    ASGIHandler runs each request in a ThreadSensitiveContext, which would otherwise get a
+    thread pool of its own, shut down from yet another thread when the request ends.
+    """
+
+    def __init__(self, executor):
+        super().__init__()
+        self.executor = executor
+
+    def __contains__(self, context):
+        return True
+
+    def __getitem__(self, context):
+        return self.executor
+
+    def __setitem__(self, context, executor):
+        pass
+
+    def pop(self, context, *default):
+        return default[0] if default else None
+
+
+def _install_inline_executor():
+    from asgiref.sync import SyncToAsync
+
+    executor = _InlineExecutor()
+    SyncToAsync.single_thread_executor = executor
+    SyncToAsync.context_to_thread_executor = _InlineExecutors(executor)
+    asyncio.get_event_loop().set_default_executor(executor)
+
+
+def _asgi_scope(environ):
+    """An HTTP connection scope with the request in a CGI environ."""
+    headers = []
+    for key, value in environ.items():
+        if key in ('CONTENT_TYPE', 'CONTENT_LENGTH'):
+            name = key.lower().replace('_', '-')
+        elif key.startswith('HTTP_'):
+            name = key[5:].lower().replace('_', '-')
+        else:
+            continue
+        if value:
+            headers.append((name.encode('latin-1'), value.encode('latin-1')))
+
+    path = environ.get('PATH_INFO', '/')
+    return {
+        'type': 'http',
+        'asgi': {'version': '3.0', 'spec_version': '2.3'},
+        'http_version': '1.1',
+        'method': environ.get('REQUEST_METHOD', 'GET'),
+        'scheme': 'http',
+        'path': path,
+        'raw_path': path.encode('utf-8'),
+        'query_string': environ.get('QUERY_STRING', '').encode('latin-1'),
+        'root_path': '',
+        'headers': headers,
+        'client': ('127.0.0.1', 0),
+        'server': ('localhost', 8000),
+    }
+
+
+async def handle_asgi_request(environ, body=None, on_stream_start=None, on_stream_chunk=None,
+                              profile=False):
+    """Run one request through Django's ASGIHandler on Pyodide's asyncio loop.
+
+    Takes the same arguments and returns the same fields as handle_request. Django's
+    async-unsafe checks are enforced, as under an ASGI server.
+    """
+    output = _new_output(body=b'', status=None, headers=[], timings={}, queries=[])
+    timings = output['timings']
+
+    with _captured(output):
+        overall_start = time.perf_counter()
+
+        import_start = time.perf_counter()
+        from django.core.handlers.asgi import ASGIHandler
+        from django.contrib.staticfiles.handlers import ASGIStaticFilesHandler
+        timings['imports'] = (time.perf_counter() - import_start) * 1000
+
+        setup_start = time.perf_counter()
+        setup_django()
+        _install_inline_executor()
+        timings['django_setup'] = (time.perf_counter() - setup_start) * 1000
+
+        if on_stream_chunk is not None:
+            from pyodide.ffi import to_js
+
+        scope = _asgi_scope({str(key): str(value) for key, value in dict(environ).items()})
+        request_body = _to_bytes(body)
+        received = False
+        response = {'status': None, 'headers': [], 'body': [], 'streaming': False}
+
+        async def receive():
+            nonlocal received
+            if not received:
+                received = True
+                return {'type': 'http.request', 'body': request_body, 'more_body': False}
+            # The client never disconnects; Django cancels this wait when the response ends
+            await asyncio.get_event_loop().create_future()
+
+        async def send(message):
+            if message['type'] == 'http.response.start':
+                code = message['status']
+                try:
+                    phrase = HTTPStatus(code).phrase
+                except ValueError:
+                    phrase = ''
+                response['status'] = f'{code} {phrase}'.strip()
+                response['headers'] = [
+                    [name.decode('latin-1'), value.decode('latin-1')]
+                    for name, value in message.get('headers', [])
+                ]
+            elif message['type'] == 'http.response.body':
+                chunk = message.get('body', b'')
+                more_body = message.get('more_body', False)
+                # Responses sent in several messages are reported as a stream
+                if on_stream_chunk is not None and more_body and not response['streaming']:
+                    response['streaming'] = True
+                    on_stream_start(response['status'], to_js(response['headers']))
+                    for previous in response['body']:
+                        on_stream_chunk(to_js(previous))
+                if chunk:
+                    response['body'].append(chunk)
+                    if response['streaming']:
+                        on_stream_chunk(to_js(chunk))
+
+        handler = ASGIStaticFilesHandler(ASGIHandler())
+
+        exec_start = time.perf_counter()
+        previous_unsafe = os.environ.pop('DJANGO_ALLOW_ASYNC_UNSAFE', None)
+        try:
+            with (
+                _recording_request_exceptions(output),
+                _recording_queries(output),
+                _profiling(output, profile),
+            ):
+                await handler(scope, receive, send)
+        finally:
+            if previous_unsafe is not None:
+                os.environ['DJANGO_ALLOW_ASYNC_UNSAFE'] = previous_unsafe
+        timings['handler_execution'] = (time.perf_counter() - exec_start) * 1000
+
+        output['body'] = b''.join(response['body'])
+        output['status'] = response['status']
+        output['headers'] = response['headers']
+        timings['total_python'] = (time.perf_counter() - overall_start) * 1000
+
+    return output
+
+
+# Open websocket connections: connection id -> queue of events for the application
+_websockets = {}
+
+
+def _get_asgi_application():
+    """The project's ASGI application: ASGI_APPLICATION (as Channels uses) or <project>.asgi."""
+    from django.conf import settings
+    from django.utils.module_loading import import_string
+
+    path = getattr(settings, 'ASGI_APPLICATION', None)
+    if not path:
+        package = os.environ['DJANGO_SETTINGS_MODULE'].rpartition('.')[0]
+        path = f'{package}.asgi.application'
+    return import_string(path)
+
+
+def websocket_connect(connection_id, environ, subprotocols, on_event):
+    """Start a websocket connection to the project's ASGI application.
+
+    The application runs as a task on the asyncio loop and outlives this call. Whatever it
+    sends (websocket.accept/send/close) is passed to on_event as a JS object, as are
+    'playground.error' events with the traceback if it raises. The task has a capture of
+    its own: what it prints and logs is passed as 'playground.output' events (stdout,
+    stderr and records) before each message it sends and whenever it waits for the client.
+    """
+    output = _new_output()
+    with _captured(output):
+        from js import Object
+        from pyodide.ffi import to_js
+
+        setup_django()
+        _install_inline_executor()
+        application = _get_asgi_application()
+
+        def emit(message):
+            on_event(to_js(message, dict_converter=Object.fromEntries))
+
+        scope = _asgi_scope({str(key): str(value) for key, value in dict(environ).items()})
+        scope.update(type='websocket', scheme='ws', subprotocols=list(subprotocols))
+        del scope['method']
+
+        queue = asyncio.Queue()
+        queue.put_nowait({'type': 'websocket.connect'})
+        _websockets[connection_id] = queue
+        closed = False
+
+        capture = _Capture(_new_output())
+
+        def emit_output():
+            taken = capture.take()
+            if any(taken.values()):
+                emit({'type': 'playground.output', **taken})
+
+        async def receive():
+            emit_output()
+            return await queue.get()
+
+        async def send(message):
+            nonlocal closed
+            emit_output()
+            if message['type'] == 'websocket.close':
+                closed = True
+            emit(message)
+
+        async def run():
+            # Only this task's context is changed, not the call that started it
+            _capture.set(capture)
+            try:
+                await application(scope, receive, send)
+            except Exception:
+                emit_output()
+                emit({'type': 'playground.error', 'message': traceback.format_exc()})
+            finally:
+                emit_output()
+                # An application that returns without closing drops the connection, unless
+                # the client already went away
+                if _websockets.pop(connection_id, None) is not None and not closed:
+                    emit({'type': 'websocket.close', 'code': 1006})
+
+        asyncio.ensure_future(run())
+    return output
+
+
+def websocket_receive(connection_id, text=None, data=None):
+    """Deliver a frame from the client. Returns an error for unknown connections."""
+    output = _new_output()
+    queue = _websockets.get(connection_id)
+    if queue is None:
+        output['error'] = f'No open websocket {connection_id}'
+    elif data is not None:
+        queue.put_nowait({'type': 'websocket.receive', 'bytes': _to_bytes(data)})
+    else:
+        queue.put_nowait({'type': 'websocket.receive', 'text': text})
+    return output
+
+
+def websocket_disconnect(connection_id, code=1000):
+    """Tell the application the client closed the connection."""
+    output = _new_output()
+    queue = _websockets.pop(connection_id, None)
+    if queue is not None:
+        queue.put_nowait({'type': 'websocket.disconnect', 'code': code})
+    return output
+
+
+def run_migrations():
+    output = _new_output()
+    with _captured(output):
+        from django.core.management import call_command
+
+        setup_django()
+        call_command('migrate', '--run-syncdb', verbosity=2)
+    return output
+
+
+def _local_migration_dirs():
+    """Migrations directories of the INSTALLED_APPS that live in the workspace, by app label."""
+    from django.apps import apps
+    from django.db.migrations.loader import MigrationLoader
+
+    workspace = os.path.abspath(os.getcwd())
+    dirs = {}
+    for app_config in apps.get_app_configs():
+        if os.path.commonpath([workspace, os.path.abspath(app_config.path)]) != workspace:
+            continue
+        module_name, _ = MigrationLoader.migrations_module(app_config.label)
+        if module_name:
+            dirs[app_config.label] = os.path.join(*module_name.split('.'))
+    return dirs
+
+
+def make_migrations():
+    """Run makemigrations for every local app and return their migrations packages.
+
+    The files come back as 'migration_files' ({path: content}) to be added to the workspace.
+    """
+    output = _new_output(migration_files={})
+    with _captured(output):
+        from django.core.management import call_command
+
+        # Always read fresh .py files
+        sys.dont_write_bytecode = True
+
+        setup_django()
+        migration_dirs = _local_migration_dirs()
+        # makemigrations reads model files from disk, which were already synced
+        # Naming the apps creates the migrations package of apps that have none yet
+        call_command('makemigrations', *migration_dirs, verbosity=2)
+
+        for migrations_dir in migration_dirs.values():
+            if not os.path.isdir(migrations_dir):
+                continue
+            for filename in os.listdir(migrations_dir):
+                if filename.endswith('.py'):
+                    filepath = os.path.join(migrations_dir, filename)
+                    with open(filepath, 'r') as f:
+                        output['migration_files'][filepath] = f.read()
+    return output
+
+
+def create_superuser(username, email, password):
+    output = _new_output()
+    with _captured(output):
+        from django.contrib.auth import get_user_model
+
+        if setup_django():
+            # A fresh interpreter has no tables yet
+            from django.core.management import call_command
+            call_command('migrate', '--run-syncdb', verbosity=0)
+
+        User = get_user_model()
+        if User.objects.filter(username=username).exists():
+            print(f'User {username} already exists')
+        else:
+            User.objects.create_superuser(username, email, password)
+            print(f'Superuser {username} created successfully')
+    return output
+
+
+def _module_name(path):
+    """Dotted module name of a workspace .py path (packages by their __init__.py)."""
+    name = path[:-3].replace('/', '.')
+    return name[:-len('.__init__')] if name.endswith('.__init__') else name
+
+
+def _workspace_modules():
+    """Imported modules whose file is in the workspace, by name."""
+    workspace = os.path.abspath(os.getcwd())
+    return {
+        name: module for name, module in list(sys.modules.items())
+        if (getattr(module, '__file__', None) or '').startswith(workspace + os.sep)
+    }
+
+
+def _imported_modules(module):
+    """Names a module's source imports from, with relative imports resolved.
+
+    `from package import name` gives both package and package.name, as name may be a
+    submodule.
+    """
+    try:
+        with open(module.__file__) as f:
+            tree = ast.parse(f.read())
+    except (OSError, SyntaxError, ValueError):
+        return set()
+
+    package = module.__name__ if hasattr(module, '__path__') else module.__name__.rpartition('.')[0]
+    names = set()
+    for node in ast.walk(tree):
+        if isinstance(node, ast.Import):
+            names.update(alias.name for alias in node.names)
+        elif isinstance(node, ast.ImportFrom):
+            base = node.module or ''
+            if node.level:
+                parent = package.rsplit('.', node.level - 1)[0] if node.level > 1 else package
+                base = '.'.join(part for part in (parent, base) if part)
+            names.add(base)
+            names.update(f'{base}.{alias.name}' for alias in node.names)
+    return names
+
+
+def _reloadable(name):
+    """Whether a module can run again: models would register their classes twice."""
+    return not {'models', 'migrations', 'settings'} & set(name.split('.'))
+
+
+def reload_modules(paths):
+    """Reload the changed workspace modules that are imported and clear Django's URL
+    resolver and template caches. Sets 'reloaded' to the reloaded module names, in order.
+
+    Modules that import a changed module (`from .forms import MyForm`) hold on to its old
+    objects, so they are reloaded too, each after the modules it imports; urls modules,
+    which captured the views, always go last. Files must already be synced to the virtual FS.
+    """
+    output = _new_output(reloaded=[])
+    with _captured(output):
+        modules = _workspace_modules()
+        imports = {name: _imported_modules(module) & modules.keys() for name, module in modules.items()}
+
+        # Modules that were never imported will be picked up fresh on first use
+        changed = {_module_name(path) for path in paths if path.endswith('.py')} & modules.keys()
+
+        # Then everything that imports them, directly or through another reloaded module
+        reload = set(changed)
+        while True:
+            dependents = {
+                name for name, imported in imports.items()
+                if imported & reload and _reloadable(name)
+            } - reload
+            if not dependents:
+                break
+            reload |= dependents
+
+        url_modules = {name for name in modules if name.split('.')[-1] == 'urls'}
+        if reload:
+            reload |= url_modules
+
+        # Dependencies first; import cycles are broken where they are met
+        ordered = []
+        visited = set()
+
+        def visit(name):
+            if name in visited or name not in reload:
+                return
+            visited.add(name)
+            for imported in sorted(imports[name]):
+                visit(imported)
+            ordered.append(name)
+
+        for name in sorted(reload):
+            visit(name)
+        ordered = [name for name in ordered if name not in url_modules] + [
+            name for name in ordered if name in url_modules
+        ]
+
+        # Admin registrations must be dropped before the module registers them again: those
+        # of the module's app (admin.site.register(Model) uses the stock ModelAdmin) and
+        # those using a ModelAdmin the module defines
+        admin_modules = [name for name in ordered if 'admin' in name.split('.')]
+        if admin_modules:
+            from django.apps import apps
+            from django.contrib import admin
+
+            admin_apps = [apps.get_containing_app_config(name) for name in admin_modules]
+            for model, model_admin in list(admin.site._registry.items()):
+                if (
+                    model._meta.app_config in admin_apps
+                    or type(model_admin).__module__ in admin_modules
+                ):
+                    admin.site.unregister(model)
+
+        importlib.invalidate_caches()
+        for name in ordered:
+            importlib.reload(sys.modules[name])
+            output['reloaded'].append(name)
+
+        from django.urls import clear_url_caches
+        clear_url_caches()
+
+        from django.template import engines
+        for engine in engines.all():
+            for loader in getattr(getattr(engine, 'engine', None), 'template_loaders', []):
+                if hasattr(loader, 'reset'):
+                    loader.reset()
+    return output
@@ -0,0 +1,63 @@
+import { log, getLogs } from '../logger';
+import { getPyodide } from '../pyodide-manager';
+import { callRuntime } from './runtime';
+import type { ExecutionResult } from '$lib/types';
+
+/**
+ * Reload changed view/url/form/admin modules in the running interpreter
+ * and clear Django's URL resolver and template caches
+ * Files must already be synced to the virtual FS
+ */
+export async function reloadModules(paths: string[]): Promise<ExecutionResult> {
+	const pyodide = getPyodide();
+	if (!pyodide) {
+		log('Pyodide not initialized', 'error');
+		return {
+			success: false,
+			output: '',
+			error: 'Pyodide not initialized',
+			logs: getLogs()
+		};
+	}
+
+	try {
+		const startTime = performance.now();
+
+		const result = callRuntime<{ reloaded: string[] }>(pyodide, 'reload_modules', paths);
+		const { stdout, stderr, error, reloaded } = result;
+
+		if (stdout) log(stdout, 'info');
+		if (stderr && !error) log(stderr, 'warning');
+
+		if (error) {
+			log(`Hot reload error: ${error}`, 'error');
+			return {
+				success: false,
+				output: stdout,
+				error: stderr || error,
+				logs: getLogs()
+			};
+		}
+
+		const duration = performance.now() - startTime;
+		log(
+			`Reloaded ${reloaded.length} module(s) in ${duration.toFixed(2)}ms: ${reloaded.join(', ') || 'none'}`,
+			'info',
+			'worker'
+		);
+
+		return {
+			success: true,
+			output: stdout,
+			logs: getLogs()
+		};
+	} catch (error) {
+		log(`Hot reload error: ${error}`, 'error');
+		return {
+			success: false,
+			output: '',
+			error: String(error),
+			logs: getLogs()
+		};
+	}
+}
@@ -0,0 +1,107 @@
+import { logRecord, type PythonLogRecord } from '../logger';
+import type { getPyodide } from '../pyodide-manager';
+import runtimeSource from './playground_runtime.py?raw';
+
+type Pyodide = ReturnType<typeof getPyodide>;
+
+// Fields every playground_runtime entry point returns
+export interface RuntimeOutput {
+	stdout: string;
+	stderr: string;
+	error: string | null; // None unless the call raised
+	records: PythonLogRecord[]; // Emitted through the logging module, already sent to the Console
+}
+
+// Outside the workspace, and under /lib/ so file syncs never unload it
+const RUNTIME_DIR = '/lib/playground';
+const RUNTIME_MODULE = 'playground_runtime';
+
+let installedIn: Pyodide = null; // The interpreter the module was written into
+let runtimeModule: Pyodide = null;
+
+/**
+ * The playground_runtime Python module, written into the virtual FS on first use
+ * Call its functions with JS values (converted by pyodide) instead of formatting them into source,
+ * usually through callRuntime
+ */
+export function getRuntime(pyodide: Pyodide) {
+	if (installedIn !== pyodide) {
+		pyodide.FS.mkdirTree(RUNTIME_DIR);
+		pyodide.FS.writeFile(`${RUNTIME_DIR}/${RUNTIME_MODULE}.py`, runtimeSource);
+		pyodide.runPython(`
+import importlib
+import sys
+
+if '${RUNTIME_DIR}' not in sys.path:
+    sys.path.insert(0, '${RUNTIME_DIR}')
+importlib.invalidate_caches()
+sys.modules.pop('${RUNTIME_MODULE}', None)
+`);
+		installedIn = pyodide;
+		runtimeModule = pyodide.pyimport(RUNTIME_MODULE);
+	}
+	return runtimeModule;
+}
+
+// Objects become Python dicts/lists; typed arrays and functions are passed as proxies
+function toPyArgs(pyodide: Pyodide, args: unknown[]) {
+	return args.map((arg) =>
+		arg !== null && typeof arg === 'object' && !ArrayBuffer.isView(arg) ? pyodide.toPy(arg) : arg
+	);
+}
+
+// Log records reach the Console as they come out of every call
+function forwardRecords<T extends RuntimeOutput>(output: T): T {
+	for (const record of output.records ?? []) {
+		logRecord(record);
+	}
+	return output;
+}
+
+/**
+ * Call a playground_runtime function and convert the dict it returns
+ * Arguments are converted with toPy, so strings reach Python as values, never as source
+ */
+export function callRuntime<T extends object = object>(
+	pyodide: Pyodide,
+	name: string,
+	...args: unknown[]
+): RuntimeOutput & T {
+	const pyArgs = toPyArgs(pyodide, args);
+	const runtimeFunction = getRuntime(pyodide)[name];
+	let result: Pyodide = null;
+	try {
+		result = runtimeFunction(...pyArgs);
+		return forwardRecords(result.toJs({ dict_converter: Object.fromEntries }));
+	} finally {
+		result?.destroy();
+		runtimeFunction.destroy();
+		for (const arg of pyArgs) {
+			arg?.destroy?.();
+		}
+	}
+}
+
+/**
+ * Like callRuntime, for async functions: the coroutine runs on Pyodide's asyncio loop
+ * (which is driven by the JS event loop) and the dict it returns is converted
+ */
+export async function callRuntimeAsync<T extends object = object>(
+	pyodide: Pyodide,
+	name: string,
+	...args: unknown[]
+): Promise<RuntimeOutput & T> {
+	const pyArgs = toPyArgs(pyodide, args);
+	const runtimeFunction = getRuntime(pyodide)[name];
+	let result: Pyodide = null;
+	try {
+		result = await runtimeFunction(...pyArgs);
+		return forwardRecords(result.toJs({ dict_converter: Object.fromEntries }));
+	} finally {
+		result?.destroy();
+		runtimeFunction.destroy();
+		for (const arg of pyArgs) {
+			arg?.destroy?.();
+		}
+	}
+}
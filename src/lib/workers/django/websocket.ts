@@ -0,0 +1,133 @@
+import { log, getLogs, logRecord, type PythonLogRecord } from '../logger';
+import { getPyodide } from '../pyodide-manager';
+import { getHeaderEnviron } from './executor';
+import { callRuntime } from './runtime';
+import type { ExecutionResult, WebSocketEvent, WebSocketRequestPayload } from '$lib/types';
+
+// Origin of the preview as Django sees it, checked by Channels' AllowedHostsOriginValidator
+const WEBSOCKET_ORIGIN = 'http://localhost:8000';
+
+// An ASGI message sent by the application, converted with to_js
+interface AsgiMessage {
+	type: string;
+	subprotocol?: string | null;
+	text?: string | null;
+	bytes?: Uint8Array | null;
+	code?: number;
+	reason?: string;
+	message?: string; // playground.error: the traceback
+	stdout?: string; // playground.output: what the application printed and logged
+	stderr?: string;
+	records?: PythonLogRecord[];
+}
+
+/**
+ * Relay a WebSocket action from the preview to the project's ASGI application
+ * The application keeps running on Pyodide's asyncio loop between calls; what it sends
+ * is reported through onEvent as it happens
+ */
+export function handleWebSocketAction(
+	payload: WebSocketRequestPayload,
+	onEvent: (event: WebSocketEvent) => void
+): ExecutionResult {
+	const pyodide = getPyodide();
+	if (!pyodide) {
+		log('Pyodide not initialized', 'error');
+		return {
+			success: false,
+			output: '',
+			error: 'Pyodide not initialized',
+			logs: getLogs()
+		};
+	}
+
+	const { connectionId } = payload;
+	try {
+		let result;
+		if (payload.action === 'connect') {
+			const [pathOnly, queryString] = payload.path.includes('?')
+				? payload.path.split('?', 2)
+				: [payload.path, ''];
+			const protocols = payload.protocols ?? [];
+			const headers: Record<string, string> = { Host: 'localhost:8000', Origin: WEBSOCKET_ORIGIN };
+			if (protocols.length > 0) {
+				headers['Sec-WebSocket-Protocol'] = protocols.join(', ');
+			}
+			const cookies = payload.cookies ?? [];
+			if (cookies.length > 0) {
+				headers.Cookie = cookies.map(([name, value]) => `${name}=${value}`).join('; ');
+			}
+			const environ = {
+				PATH_INFO: pathOnly,
+				QUERY_STRING: queryString,
+				...getHeaderEnviron(headers)
+			};
+
+			const onMessage = (message: AsgiMessage) => {
+				if (message.type === 'websocket.accept') {
+					log(`WebSocket ${pathOnly} connected`, 'success');
+					onEvent({ connectionId, type: 'accept', subprotocol: message.subprotocol ?? undefined });
+				} else if (message.type === 'websocket.send') {
+					onEvent({
+						connectionId,
+						type: 'send',
+						text: message.text ?? undefined,
+						bytes: message.bytes ?? undefined
+					});
+				} else if (message.type === 'websocket.close') {
+					log(`WebSocket ${pathOnly} closed (${message.code ?? 1000})`, 'info');
+					onEvent({
+						connectionId,
+						type: 'close',
+						code: message.code ?? 1000,
+						reason: message.reason ?? ''
+					});
+				} else if (message.type === 'playground.output') {
+					if (message.stdout) log(message.stdout, 'info');
+					if (message.stderr) log(message.stderr, 'warning');
+					for (const record of message.records ?? []) {
+						logRecord(record);
+					}
+				} else if (message.type === 'playground.error') {
+					log(`WebSocket ${pathOnly} error: ${message.message}`, 'error');
+				}
+			};
+
+			log(`WebSocket ${pathOnly} connecting...`, 'info');
+			result = callRuntime(
+				pyodide,
+				'websocket_connect',
+				connectionId,
+				environ,
+				protocols,
+				onMessage
+			);
+		} else if (payload.action === 'send') {
+			result = callRuntime(
+				pyodide,
+				'websocket_receive',
+				connectionId,
+				payload.text ?? null,
+				payload.bytes ?? null
+			);
+		} else {
+			result = callRuntime(pyodide, 'websocket_disconnect', connectionId, payload.code ?? 1000);
+		}
+
+		const { stdout, stderr, error } = result;
+		if (stdout) log(stdout, 'info');
+		if (error) {
+			log(`WebSocket error: ${stderr || error}`, 'error');
+			return { success: false, output: stdout, error: stderr || error, logs: getLogs() };
+		}
+		return { success: true, output: stdout, logs: getLogs() };
+	} catch (error) {
+		log(`WebSocket error: ${error}`, 'error');
+		return {
+			success: false,
+			output: '',
+			error: String(error),
+			logs: getLogs()
+		};
+	}
+}
@@ -0,0 +1,184 @@
+import { spawn, spawnSync } from 'node:child_process';
+import * as fs from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createInterface } from 'node:readline';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FileChangeSet } from '$lib/types';
+import { applyFileChanges } from './filesystem';
+
+// Pyodide's FS backed by a temporary directory; Python run through it is kept for a CPython
+let workspace: string;
+let operations: string[];
+let pythonRun: string[];
+
+const at = (path: string) => join(workspace, path);
+
+const fakePyodide = {
+	FS: {
+		analyzePath: (path: string) => ({ exists: fs.existsSync(at(path)) }),
+		mkdir: (path: string) => fs.mkdirSync(at(path)),
+		rmdir: (path: string) => fs.rmdirSync(at(path)),
+		readdir: (path: string) => ['.', '..', ...fs.readdirSync(at(path))],
+		rename: (from: string, to: string) => {
+			operations.push(`rename ${from} ${to}`);
+			fs.renameSync(at(from), at(to));
+		},
+		unlink: (path: string) => {
+			operations.push(`unlink ${path}`);
+			fs.unlinkSync(at(path));
+		},
+		writeFile: (path: string, content: string) => {
+			operations.push(`write ${path}`);
+			fs.writeFileSync(at(path), content);
+		}
+	},
+	runPython: (source: string) => {
+		pythonRun.push(source);
+	}
+};
+
+vi.mock('./pyodide-manager', () => ({ getPyodide: () => fakePyodide }));
+
+function changeSet(changes: Partial<FileChangeSet>): FileChangeSet {
+	return { added: {}, modified: {}, deleted: [], renamed: [], ...changes };
+}
+
+function writeWorkspace(files: Record<string, string>) {
+	for (const [path, content] of Object.entries(files)) {
+		fs.mkdirSync(join(workspace, path, '..'), { recursive: true });
+		fs.writeFileSync(at(path), content);
+	}
+}
+
+beforeEach(() => {
+	vi.stubGlobal('self', { postMessage: vi.fn() });
+	workspace = fs.mkdtempSync(join(tmpdir(), 'workspace-'));
+	operations = [];
+	pythonRun = [];
+});
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+	fs.rmSync(workspace, { recursive: true, force: true });
+});
+
+describe('applyFileChanges', () => {
+	it('applies renames, then deletions, then writes', async () => {
+		writeWorkspace({ 'myapp/old.py': 'old', 'myapp/gone.py': '' });
+
+		const applied = await applyFileChanges(
+			changeSet({
+				added: { 'myapp/old.py': 'new' },
+				deleted: ['myapp/gone.py'],
+				renamed: [{ from: 'myapp/old.py', to: 'myapp/moved.py' }]
+			})
+		);
+
+		expect(applied).toBe(true);
+		expect(operations).toEqual([
+			'rename myapp/old.py myapp/moved.py',
+			'unlink myapp/gone.py',
+			'write myapp/old.py'
+		]);
+		// The file written at the old path is not the one that moved
+		expect(fs.readFileSync(at('myapp/moved.py'), 'utf-8')).toBe('old');
+		expect(fs.readFileSync(at('myapp/old.py'), 'utf-8')).toBe('new');
+	});
+
+	it('removes the bytecode of moved, deleted and modified modules', async () => {
+		writeWorkspace({
+			'myapp/old.py': '',
+			'myapp/gone.py': '',
+			'myapp/edited.py': '',
+			'myapp/__pycache__/old.cpython-312.pyc': '',
+			'myapp/__pycache__/gone.cpython-312.pyc': '',
+			'myapp/__pycache__/edited.cpython-312.pyc': '',
+			'myapp/__pycache__/other.cpython-312.pyc': ''
+		});
+
+		await applyFileChanges(
+			changeSet({
+				modified: { 'myapp/edited.py': 'x = 1' },
+				deleted: ['myapp/gone.py'],
+				renamed: [{ from: 'myapp/old.py', to: 'myapp/new.py' }]
+			})
+		);
+
+		expect(fs.readdirSync(at('myapp/__pycache__'))).toEqual(['other.cpython-312.pyc']);
+	});
+
+	it('removes directories left with only bytecode', async () => {
+		writeWorkspace({
+			'blog/views.py': '',
+			'blog/__pycache__/views.cpython-312.pyc': '',
+			'blog/__pycache__/urls.cpython-312.pyc': ''
+		});
+
+		await applyFileChanges(changeSet({ deleted: ['blog/views.py'] }));
+
+		expect(fs.existsSync(at('blog'))).toBe(false);
+	});
+});
+
+// A CPython, to run the module purge against modules it imported
+const python = process.env.PLAYGROUND_PYTHON ?? 'python3';
+const hasPython = spawnSync(python, ['--version']).status === 0;
+
+// Imports the modules from the workspace, waits for a line of Python to run, then
+// prints whether each module can still be imported
+const PROBE = `
+import importlib, json, sys
+sys.path.insert(0, '.')
+names = sys.argv[1:]
+for name in names:
+    importlib.import_module(name)
+print('imported', flush=True)
+exec(json.loads(sys.stdin.readline()))
+found = {}
+for name in names:
+    try:
+        importlib.import_module(name)
+        found[name] = True
+    except ImportError:
+        found[name] = False
+print(json.dumps(found), flush=True)
+`;
+
+describe.skipIf(!hasPython)('applyFileChanges with modules imported', () => {
+	// Imports the modules, applies the changes and returns which modules still import
+	async function importAfter(modules: string[], changes: FileChangeSet) {
+		const probe = spawn(python, ['-c', PROBE, ...modules], { cwd: workspace });
+		const lines = createInterface({ input: probe.stdout })[Symbol.asyncIterator]();
+		try {
+			expect((await lines.next()).value).toBe('imported');
+			await applyFileChanges(changes);
+			probe.stdin.end(JSON.stringify(pythonRun.join('\n')) + '\n');
+			return JSON.parse((await lines.next()).value);
+		} finally {
+			probe.kill();
+		}
+	}
+
+	it('forgets a renamed module, so its old name no longer imports', async () => {
+		writeWorkspace({ 'myapp/__init__.py': '', 'myapp/forms.py': 'NAME = 1' });
+
+		const found = await importAfter(
+			['myapp.forms'],
+			changeSet({ renamed: [{ from: 'myapp/forms.py', to: 'myapp/widgets.py' }] })
+		);
+
+		expect(found).toEqual({ 'myapp.forms': false });
+	});
+
+	it('keeps the modules whose source is still there', async () => {
+		writeWorkspace({ 'myapp/__init__.py': '', 'myapp/forms.py': '', 'myapp/views.py': '' });
+
+		const found = await importAfter(
+			['myapp.forms', 'myapp.views'],
+			changeSet({ deleted: ['myapp/forms.py'] })
+		);
+
+		expect(found).toEqual({ 'myapp.forms': false, 'myapp.views': true });
+	});
+});
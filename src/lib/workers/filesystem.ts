@@ -1,3 +1,4 @@
+import type { FileChangeSet } from '$lib/types';
 import { log } from './logger';
 import { getPyodide } from './pyodide-manager';
 
@@ -36,6 +37,143 @@ export async function writeFilesToVirtualFS(files: Record<string, string>) {
 	}
 }
 
+/**
+ * Apply a workspace change set: renames, then deletions, then writes
+ * Stale files are removed along with their __pycache__ bytecode so they stop being importable
+ */
+export async function applyFileChanges(changes: FileChangeSet): Promise<boolean> {
+	const startTime = performance.now();
+	const pyodide = getPyodide();
+	if (!pyodide) {
+		log('Pyodide not initialized', 'error', 'worker');
+		return false;
+	}
+
+	try {
+		for (const { from, to } of changes.renamed) {
+			ensureParentDirs(to);
+			pyodide.FS.rename(from, to);
+			removeBytecode(from);
+			pruneEmptyDirs(from);
+		}
+
+		for (const filepath of changes.deleted) {
+			if (pyodide.FS.analyzePath(filepath).exists) {
+				pyodide.FS.unlink(filepath);
+			}
+			removeBytecode(filepath);
+			pruneEmptyDirs(filepath);
+		}
+
+		const written = await writeFilesToVirtualFS({ ...changes.added, ...changes.modified });
+		for (const filepath of Object.keys(changes.modified)) {
+			removeBytecode(filepath);
+		}
+
+		// Forget modules whose source is gone and drop the import system's directory listings
+		pyodide.runPython(`
+import importlib
+import os
+import sys
+
+for _name, _module in list(sys.modules.items()):
+    _file = getattr(_module, '__file__', None)
+    if _file and not _file.startswith('/lib/') and not os.path.exists(_file):
+        del sys.modules[_name]
+
+importlib.invalidate_caches()
+`);
+
+		const duration = performance.now() - startTime;
+		log(
+			`Applied file changes in ${duration.toFixed(2)}ms: ${Object.keys(changes.added).length} added, ${Object.keys(changes.modified).length} modified, ${changes.deleted.length} deleted, ${changes.renamed.length} renamed`,
+			'info',
+			'worker'
+		);
+		return written;
+	} catch (error) {
+		log(`Failed to apply file changes: ${error}`, 'error', 'worker');
+		return false;
+	}
+}
+
+/**
+ * Create every missing directory above a file path
+ */
+function ensureParentDirs(filepath: string) {
+	const pyodide = getPyodide();
+	const parts = filepath.split('/');
+	let currentPath = '';
+
+	for (let i = 0; i < parts.length - 1; i++) {
+		currentPath += (i > 0 ? '/' : '') + parts[i];
+		if (!pyodide.FS.analyzePath(currentPath).exists) {
+			pyodide.FS.mkdir(currentPath);
+		}
+	}
+}
+
+/**
+ * Remove cached bytecode (__pycache__/<module>.*.pyc) for a Python source file
+ */
+function removeBytecode(filepath: string) {
+	if (!filepath.endsWith('.py')) {
+		return;
+	}
+
+	const pyodide = getPyodide();
+	const slashIndex = filepath.lastIndexOf('/');
+	const dir = slashIndex >= 0 ? filepath.substring(0, slashIndex) : '.';
+	const moduleName = filepath.substring(slashIndex + 1, filepath.length - '.py'.length);
+	const cacheDir = `${dir}/__pycache__`;
+
+	if (!pyodide.FS.analyzePath(cacheDir).exists) {
+		return;
+	}
+
+	for (const entry of pyodide.FS.readdir(cacheDir) as string[]) {
+		if (entry.startsWith(`${moduleName}.`) && entry.endsWith('.pyc')) {
+			pyodide.FS.unlink(`${cacheDir}/${entry}`);
+		}
+	}
+}
+
+/**
+ * Remove directories left empty by a deletion (an empty dir still imports as a namespace package)
+ */
+function pruneEmptyDirs(filepath: string) {
+	const pyodide = getPyodide();
+	const parts = filepath.split('/').slice(0, -1);
+
+	while (parts.length > 0) {
+		const dir = parts.join('/');
+		if (!pyodide.FS.analyzePath(dir).exists) {
+			parts.pop();
+			continue;
+		}
+
+		// Only __pycache__ (or nothing) left means the directory is stale
+		const entries = (pyodide.FS.readdir(dir) as string[]).filter(
+			(entry) => entry !== '.' && entry !== '..'
+		);
+		if (entries.some((entry) => entry !== '__pycache__')) {
+			return;
+		}
+
+		if (entries.includes('__pycache__')) {
+			const cacheDir = `${dir}/__pycache__`;
+			for (const entry of pyodide.FS.readdir(cacheDir) as string[]) {
+				if (entry !== '.' && entry !== '..') {
+					pyodide.FS.unlink(`${cacheDir}/${entry}`);
+				}
+			}
+			pyodide.FS.rmdir(cacheDir);
+		}
+		pyodide.FS.rmdir(dir);
+		parts.pop();
+	}
+}
+
 export async function getDatabaseFromVirtualFS(): Promise<Uint8Array | null> {
 	const pyodide = getPyodide();
 	if (!pyodide) {
@@ -96,6 +234,19 @@ json.dumps({'root_files': root_files, 'db_info': db_info})
 	}
 }
 
+/**
+ * Modification time and size of the database file, or null without one
+ * Compared before and after a request to tell whether it wrote to the database
+ */
+export function getDatabaseStamp(): string | null {
+	try {
+		const { mtime, size } = getPyodide().FS.stat('/db.sqlite3');
+		return `${new Date(mtime).getTime()}:${size}`;
+	} catch {
+		return null;
+	}
+}
+
 export async function setDatabaseToVirtualFS(dbData: Uint8Array): Promise<boolean> {
 	const pyodide = getPyodide();
 	if (!pyodide) {
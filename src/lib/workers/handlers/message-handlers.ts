@@ -1,50 +1,100 @@
-import type { WorkerRequest, WorkerResponse } from '$lib/types';
+import {
+	WORKER_PROTOCOL_VERSION,
+	type ExecuteRequestPayload,
+	type FileChangeSet,
+	type RuntimeVersions,
+	type StreamEvent,
+	type WebSocketRequestPayload,
+	type WorkerResponse,
+	type WorkerResponseMessage
+} from '$lib/types';
 import {
 	initializePyodide,
 	installDjango,
 	installPackage,
 	setFirstLoad,
-	createPyodideSnapshot
+	createPyodideSnapshot,
+	setInterruptBuffer,
+	getHealth,
+	getBootTimings,
+	getFailedRequirements,
+	setRequirements,
+	setRuntimeVersions,
+	needsSnapshot,
+	getSnapshotKey
 } from '../pyodide-manager';
+import { clearAllSnapshots, clearSnapshot, listSnapshots } from '../snapshot-manager';
 import { executePython, executeDjangoView } from '../django/executor';
+import { handleWebSocketAction } from '../django/websocket';
 import { runMigrations, makeMigrations, createSuperuser } from '../django/management';
+import { reloadModules } from '../django/reloader';
 import {
-	writeFilesToVirtualFS,
+	applyFileChanges,
 	getDatabaseFromVirtualFS,
+	getDatabaseStamp,
 	setDatabaseToVirtualFS
 } from '../filesystem';
 import { getLogs } from '../logger';
 
-export async function handleInit(isFirstLoad?: boolean): Promise<WorkerResponse> {
+export async function handleInit(
+	isFirstLoad?: boolean,
+	interruptBuffer?: Uint8Array,
+	requirements: string[] = [],
+	versions?: RuntimeVersions
+): Promise<WorkerResponseMessage> {
 	// Set the first load flag if provided
-	const isFirst = isFirstLoad === true;
 	if (isFirstLoad !== undefined) {
 		setFirstLoad(isFirstLoad);
 	}
+	if (versions) {
+		setRuntimeVersions(versions);
+	}
+	await setRequirements(requirements);
 
 	const success = await initializePyodide();
 	if (success) {
+		// Let the pool stop runaway requests without terminating the worker
+		if (interruptBuffer) {
+			setInterruptBuffer(interruptBuffer);
+		}
+
 		await installDjango();
 
 		// Send ready message immediately - worker is ready to execute Django code
 		// This allows the UI to transition from INITIALIZING → IDLE without waiting for snapshot
-		const readyResponse: WorkerResponse = {
+		const readyResponse: WorkerResponseMessage = {
 			type: 'ready',
-			payload: { success: true }
+			payload: {
+				success: true,
+				timings: getBootTimings(),
+				buildingSnapshot: needsSnapshot(),
+				failedRequirements: getFailedRequirements()
+			}
 		};
 
-		// For first load, create snapshot AFTER sending ready message
+		// After a fresh install (first load, or new requirements), create snapshot AFTER sending ready message
 		// This runs in background and doesn't block the UI from becoming interactive
 		// Subsequent workers will benefit from this snapshot
-		if (isFirst) {
+		if (needsSnapshot()) {
 			// Send ready message first (we'll return this response)
 			// Then create snapshot asynchronously (don't await - let it run in background)
+			// The pool holds off heartbeats until it hears the build is over
+			const reportBuilt = (success: boolean) => {
+				const response: WorkerResponse = {
+					type: 'snapshotBuilt',
+					payload: { success },
+					version: WORKER_PROTOCOL_VERSION
+				};
+				self.postMessage(response);
+			};
 			createPyodideSnapshot()
 				.then(() => {
 					console.log('[message-handlers] Snapshot created successfully in background');
+					reportBuilt(true);
 				})
 				.catch((error) => {
 					console.error('[message-handlers] Background snapshot creation failed:', error);
+					reportBuilt(false);
 				});
 		}
 
@@ -57,7 +107,7 @@ export async function handleInit(isFirstLoad?: boolean): Promise<WorkerResponse>
 	}
 }
 
-export async function handleInstallPackage(packageName: string): Promise<WorkerResponse> {
+export async function handleInstallPackage(packageName: string): Promise<WorkerResponseMessage> {
 	const success = await installPackage(packageName);
 	if (success) {
 		return {
@@ -78,32 +128,10 @@ export async function handleInstallPackage(packageName: string): Promise<WorkerR
 	}
 }
 
-export async function handleExecute(payload: WorkerRequest['payload']): Promise<WorkerResponse> {
-	if (payload?.files) {
-		// Execute Django project with optional path
-		const path = payload.path || '/';
-		const skipFileWrite = payload.skipFileWrite || false;
-		const method = payload.method || 'GET';
-		const headers = payload.headers || {};
-		const body = payload.body || '';
-		const cookies = payload.cookies || {};
-		const isStaticFileRequest = payload.isStaticFileRequest || false;
-
-		const result = await executeDjangoView(
-			payload.files,
-			path,
-			skipFileWrite,
-			method,
-			headers,
-			body,
-			cookies,
-			isStaticFileRequest
-		);
-		return {
-			type: 'result',
-			payload: result
-		};
-	} else if (payload?.code) {
+export async function handleExecute(
+	payload: ExecuteRequestPayload
+): Promise<WorkerResponseMessage> {
+	if (payload?.code) {
 		// Execute plain Python code
 		const result = await executePython(payload.code);
 		return {
@@ -112,36 +140,93 @@ export async function handleExecute(payload: WorkerRequest['payload']): Promise<
 		};
 	}
 
+	// Execute Django project (against the files already synced) with optional path
+	const path = payload?.path || '/';
+	const method = payload?.method || 'GET';
+	const headers = payload?.headers || {};
+	const body = payload?.body || '';
+	const cookies = payload?.cookies || [];
+	const isStaticFileRequest = payload?.isStaticFileRequest || false;
+
+	// Streaming responses are posted as they are produced; the result still carries the whole body
+	const streamId = payload?.streamId;
+	const onStream = streamId
+		? (event: Omit<StreamEvent, 'streamId'>) => {
+				const response: WorkerResponse = {
+					type: 'stream',
+					payload: { streamId, ...event },
+					version: WORKER_PROTOCOL_VERSION
+				};
+				self.postMessage(response);
+			}
+		: undefined;
+
+	const stamp = getDatabaseStamp();
+	const result = await executeDjangoView(
+		path,
+		method,
+		headers,
+		body,
+		cookies,
+		isStaticFileRequest,
+		onStream,
+		payload?.asgi ?? false,
+		payload?.profile ?? false
+	);
+	// ORM queries, raw cursors and migrations run by the view all change the file
+	result.databaseChanged = getDatabaseStamp() !== stamp;
 	return {
-		type: 'error',
-		payload: {
-			message: 'No files or code provided for execution'
-		}
+		type: 'result',
+		payload: result
 	};
 }
 
-export async function handleWriteFiles(files: Record<string, string>): Promise<WorkerResponse> {
-	const success = await writeFilesToVirtualFS(files);
+export function handleWebSocket(payload: WebSocketRequestPayload): WorkerResponseMessage {
+	// What the application sends is posted as it happens, long after this reply
+	const result = handleWebSocketAction(payload, (event) => {
+		const response: WorkerResponse = {
+			type: 'websocket',
+			payload: event,
+			version: WORKER_PROTOCOL_VERSION
+		};
+		self.postMessage(response);
+	});
+	return {
+		type: 'result',
+		payload: result
+	};
+}
+
+export async function handleSyncFiles(changes: FileChangeSet): Promise<WorkerResponseMessage> {
+	const success = await applyFileChanges(changes);
 	return {
 		type: 'result',
 		payload: {
 			success,
-			output: success ? 'Files written successfully' : 'Failed to write files',
+			output: success ? 'Files synced successfully' : 'Failed to sync files',
 			logs: getLogs()
 		}
 	};
 }
 
-export async function handleRunMigrations(files: Record<string, string>): Promise<WorkerResponse> {
-	const result = await runMigrations(files);
+export async function handleReloadModules(paths: string[]): Promise<WorkerResponseMessage> {
+	const result = await reloadModules(paths);
 	return {
 		type: 'result',
 		payload: result
 	};
 }
 
-export async function handleMakeMigrations(files: Record<string, string>): Promise<WorkerResponse> {
-	const result = await makeMigrations(files);
+export async function handleRunMigrations(): Promise<WorkerResponseMessage> {
+	const result = await runMigrations();
+	return {
+		type: 'result',
+		payload: result
+	};
+}
+
+export async function handleMakeMigrations(): Promise<WorkerResponseMessage> {
+	const result = await makeMigrations();
 	return {
 		type: 'result',
 		payload: result
@@ -149,19 +234,18 @@ export async function handleMakeMigrations(files: Record<string, string>): Promi
 }
 
 export async function handleCreateSuperuser(
-	files: Record<string, string>,
 	username: string,
 	email: string,
 	password: string
-): Promise<WorkerResponse> {
-	const result = await createSuperuser(files, username, email, password);
+): Promise<WorkerResponseMessage> {
+	const result = await createSuperuser(username, email, password);
 	return {
 		type: 'result',
 		payload: result
 	};
 }
 
-export async function handleGetDatabase(): Promise<WorkerResponse> {
+export async function handleGetDatabase(): Promise<WorkerResponseMessage> {
 	const dbData = await getDatabaseFromVirtualFS();
 	// Always return 'database' type - null dbData means no database exists yet
 	// This is expected on first run before migrations, so not an error
@@ -171,7 +255,7 @@ export async function handleGetDatabase(): Promise<WorkerResponse> {
 	};
 }
 
-export async function handleSetDatabase(dbData: Uint8Array): Promise<WorkerResponse> {
+export async function handleSetDatabase(dbData: Uint8Array): Promise<WorkerResponseMessage> {
 	const success = await setDatabaseToVirtualFS(dbData);
 	return {
 		type: 'result',
@@ -182,3 +266,28 @@ export async function handleSetDatabase(dbData: Uint8Array): Promise<WorkerRespo
 		}
 	};
 }
+
+export async function handleListSnapshots(): Promise<WorkerResponseMessage> {
+	return {
+		type: 'snapshots',
+		payload: await listSnapshots(getSnapshotKey())
+	};
+}
+
+export async function handleDeleteSnapshots(key?: string): Promise<WorkerResponseMessage> {
+	const success = key ? await clearSnapshot(key) : await clearAllSnapshots();
+	if (!success) {
+		return {
+			type: 'error',
+			payload: { message: 'Failed to delete snapshots' }
+		};
+	}
+	return handleListSnapshots();
+}
+
+export function handlePing(): WorkerResponseMessage {
+	return {
+		type: 'pong',
+		payload: getHealth()
+	};
+}
@@ -1,4 +1,25 @@
-import type { LogEntry, WorkerResponse } from '$lib/types';
+import { WORKER_PROTOCOL_VERSION, type LogEntry, type WorkerResponse } from '$lib/types';
+
+// A record of Python's logging module, as playground_runtime collects it
+export interface PythonLogRecord {
+	level: string;
+	logger: string;
+	message: string; // With the traceback of exc_info
+	filename: string; // Relative to the workspace for workspace files
+	lineno: number;
+	function: string;
+	workspace: boolean;
+	timestamp: number;
+}
+
+// Numeric values of the standard logging levels
+const PYTHON_LEVELS: Record<string, number> = {
+	DEBUG: 10,
+	INFO: 20,
+	WARNING: 30,
+	ERROR: 40,
+	CRITICAL: 50
+};
 
 export const logs: LogEntry[] = [];
 
@@ -9,6 +30,32 @@ export function log(message: string, type: LogEntry['type'] = 'info', category:
 		message,
 		category
 	};
+	addEntry(entry);
+}
+
+/**
+ * Show a record of Python's logging module in the UI Console, typed by its level
+ */
+export function logRecord(record: PythonLogRecord) {
+	const levelNumber = PYTHON_LEVELS[record.level] ?? 20;
+	addEntry({
+		timestamp: record.timestamp,
+		type: levelNumber >= 40 ? 'error' : levelNumber >= 30 ? 'warning' : 'info',
+		message: record.message,
+		category: 'django',
+		level: record.level,
+		logger: record.logger,
+		location: {
+			filename: record.filename,
+			lineno: record.lineno,
+			function: record.function,
+			workspace: record.workspace
+		}
+	});
+}
+
+function addEntry(entry: LogEntry) {
+	const { type, message, category } = entry;
 	logs.push(entry);
 
 	// Worker debug logs go to browser console, Django logs go to UI
@@ -32,10 +79,12 @@ export function log(message: string, type: LogEntry['type'] = 'info', category:
 		}
 	} else {
 		// Django logs go to UI Console
-		self.postMessage({
+		const response: WorkerResponse = {
 			type: 'log',
-			payload: entry
-		} as WorkerResponse);
+			payload: entry,
+			version: WORKER_PROTOCOL_VERSION
+		};
+		self.postMessage(response);
 	}
 }
 
@@ -1,28 +1,101 @@
+import type { BootTimings, RuntimeVersions, WorkerHealth } from '$lib/types';
+import { DEFAULT_RUNTIME_VERSIONS, getRuntimeConfig } from '$lib/runtime-config';
 import { log } from './logger';
-import { hasSnapshot, createSnapshot, restoreSnapshot } from './snapshot-manager';
+import {
+	getSnapshot,
+	createSnapshot,
+	restoreSnapshot,
+	type SnapshotData,
+	type SnapshotKey
+} from './snapshot-manager';
 
 let pyodide: any = null;
 let djangoInstalled = false;
 let isFirstLoad = true; // Will be set by the init message via setFirstLoad()
-const DJANGO_VERSION = '5.2'; // Track Django version for snapshot versioning (Python 3.13 compatible)
+let runtimeVersions: RuntimeVersions = DEFAULT_RUNTIME_VERSIONS; // Set by the init message via setRuntimeVersions()
+let requirements: string[] = []; // From the workspace's requirements.txt
+let requirementsHash = ''; // Part of the snapshot key; empty without requirements
+let failedRequirements: string[] = []; // Requirements micropip could not install during init
+let snapshotNeeded = false; // Set when this worker installed fresh and should cache the result
+let snapshot: SnapshotData | null = null; // Cached runtime this worker boots from, if any
+let restoredFromMemory = false; // The interpreter came from snapshot.memory
+let memorySnapshot: Uint8Array | null = null; // Taken after the pre-imports, stored by createPyodideSnapshot
+let initStartTime = 0;
+const bootTimings: BootTimings = {
+	source: 'fresh',
+	pyodideLoad: 0,
+	binaryPackages: 0,
+	djangoImport: 0,
+	total: 0
+};
+
+// Imported before the memory snapshot is taken (and after a tarball restore) so views start warm
+// Nothing here may read settings - the project is configured later
+const PRE_IMPORT_CODE = `
+import os
+import django
+from django.conf import settings
+from django.core.handlers.wsgi import WSGIHandler
+from django.contrib.staticfiles.handlers import StaticFilesHandler
+import django.http
+import django.urls
+import django.db.models
+import django.forms
+import django.template
+import django.core.management
+
+# Set Django environment variables (but don't call django.setup() yet)
+os.environ['DJANGO_ALLOW_ASYNC_UNSAFE'] = 'true'
+`;
 
 export async function initializePyodide() {
 	try {
 		log('Loading Pyodide...', 'info', 'django');
+		initStartTime = performance.now();
 
 		// Load Pyodide dynamically using import for ES modules
 		// Using .mjs version because this runs in a Web Worker (strict ES module environment)
-		const pyodideModule = await import('https://cdn.jsdelivr.net/pyodide/v0.29.0/full/pyodide.mjs');
+		const { pyodideIndexURL } = getRuntimeConfig(runtimeVersions.pyodide);
+		const [pyodideModule, cached] = await Promise.all([
+			import(/* @vite-ignore */ `${pyodideIndexURL}pyodide.mjs`),
+			// The first worker of a session always installs fresh, so it skips the cache
+			isFirstLoad ? null : getSnapshot(getSnapshotKey())
+		]);
+		snapshot = cached;
 
-		pyodide = await pyodideModule.loadPyodide({
-			indexURL: 'https://cdn.jsdelivr.net/pyodide/v0.29.0/full/',
+		const options = {
+			indexURL: pyodideIndexURL,
 			// Load micropip during Pyodide initialization for faster startup
 			packages: ['micropip'],
 			// Don't load full stdlib immediately - defer for faster initial load
 			fullStdLib: false
-		});
+		};
+
+		if (snapshot?.memory) {
+			try {
+				pyodide = await pyodideModule.loadPyodide({ ...options, _loadSnapshot: snapshot.memory });
+				restoredFromMemory = true;
+			} catch (error) {
+				log(`Memory snapshot could not be loaded, starting fresh: ${error}`, 'warning', 'worker');
+			}
+		}
+
+		if (!pyodide) {
+			pyodide = await pyodideModule.loadPyodide({
+				...options,
+				// Only an interpreter loaded this way can be memory-snapshotted once Django is imported
+				_makeSnapshot: snapshot === null
+			});
+		}
 
-		log('Pyodide and micropip loaded successfully', 'success', 'django');
+		bootTimings.pyodideLoad = performance.now() - initStartTime;
+		log(
+			restoredFromMemory
+				? 'Pyodide restored from memory snapshot'
+				: 'Pyodide and micropip loaded successfully',
+			'success',
+			'django'
+		);
 
 		return true;
 	} catch (error) {
@@ -35,6 +108,21 @@ export function setFirstLoad(value: boolean) {
 	isFirstLoad = value;
 }
 
+export function setRuntimeVersions(versions: RuntimeVersions) {
+	runtimeVersions = versions;
+}
+
+/**
+ * Key of the snapshot for this worker's runtime and requirements
+ */
+export function getSnapshotKey(): SnapshotKey {
+	return {
+		pyodideVersion: runtimeVersions.pyodide,
+		djangoVersion: runtimeVersions.django,
+		requirementsHash
+	};
+}
+
 export async function installDjango() {
 	if (djangoInstalled) {
 		log('Django already installed', 'info', 'django');
@@ -42,35 +130,33 @@ export async function installDjango() {
 	}
 
 	try {
-		// Check snapshot and start loading binary packages in parallel
 		// sqlite3 and tzdata are needed regardless of restore or fresh install
-		const [snapshotExists] = await Promise.all([
-			hasSnapshot(DJANGO_VERSION),
-			// Start loading binary packages early - they're always needed
-			pyodide.loadPackage(['sqlite3', 'tzdata'])
-		]);
+		// (their files and libraries live outside the interpreter heap, so a memory restore needs them too)
+		const packagesStart = performance.now();
+		await pyodide.loadPackage(['sqlite3', 'tzdata']);
+		bootTimings.binaryPackages = performance.now() - packagesStart;
 		log('Binary packages loaded', 'success', 'django');
 
-		if (snapshotExists && !isFirstLoad) {
-			// Restore from snapshot (fast path) - but only if NOT the first worker
-			// First worker should always install fresh even if old snapshot exists
+		if (snapshot) {
+			// Restore from snapshot (fast path) - the first worker never gets here, it always
+			// installs fresh even if an old snapshot exists
 			log('Restoring Django from cache...', 'info', 'django');
-			const restored = await restoreSnapshot(pyodide, DJANGO_VERSION);
+			const restoreStart = performance.now();
+			const restored = await restoreSnapshot(pyodide, snapshot, !restoredFromMemory);
+			bootTimings.snapshotRestore = performance.now() - restoreStart;
 
 			if (restored) {
-				// Pre-import Django modules to warm up sys.modules cache
-				// This makes the first view execution much faster
-				log('Pre-importing Django modules...', 'info', 'django');
-				await pyodide.runPythonAsync(`
-import os
-import django
-from django.conf import settings
-from django.core.handlers.wsgi import WSGIHandler
-from django.contrib.staticfiles.handlers import StaticFilesHandler
-
-# Set Django environment variables (but don't call django.setup() yet)
-os.environ['DJANGO_ALLOW_ASYNC_UNSAFE'] = 'true'
-				`);
+				if (!restoredFromMemory) {
+					// Pre-import Django modules to warm up sys.modules cache
+					// This makes the first view execution much faster
+					log('Pre-importing Django modules...', 'info', 'django');
+					const importStart = performance.now();
+					await pyodide.runPythonAsync(PRE_IMPORT_CODE);
+					bootTimings.djangoImport = performance.now() - importStart;
+				}
+				bootTimings.source = restoredFromMemory ? 'memory' : 'tarball';
+				bootTimings.total = performance.now() - initStartTime;
+				snapshot = null;
 
 				djangoInstalled = true;
 				log('Django restored successfully', 'success', 'django');
@@ -86,36 +172,44 @@ os.environ['DJANGO_ALLOW_ASYNC_UNSAFE'] = 'true'
 		// 3. Snapshot restore failed
 		// Note: sqlite3 and tzdata are already loaded above in parallel with snapshot check
 		log('Installing Django and dependencies in parallel...', 'info', 'django');
-		const micropip = pyodide.pyimport('micropip');
+		const installStart = performance.now();
 
 		// Install Django and its dependencies in parallel
 		// Include Django's dependencies (asgiref, sqlparse) explicitly to avoid sequential resolution
 		await Promise.all([
-			micropip.install('django'),
-			micropip.install('asgiref'),
-			micropip.install('sqlparse')
+			micropipInstall(`django~=${runtimeVersions.django}.0`),
+			micropipInstall('asgiref'),
+			micropipInstall('sqlparse')
 		]);
 
+		const requirementsInstalled = await installRequirements();
+
+		bootTimings.packageInstall = performance.now() - installStart;
 		log('All packages installed', 'success', 'django');
 
+		// A snapshot with failed requirements would hand the failure to every warm worker
+		// (snapshot is only null here on first load or when none was cached)
+		snapshotNeeded = requirementsInstalled && snapshot === null;
+		snapshot = null;
+
 		// Pre-import Django modules to warm up sys.modules cache
 		log('Pre-importing Django modules...', 'info', 'django');
-		await pyodide.runPythonAsync(`
-import os
-import django
-from django.conf import settings
-from django.core.handlers.wsgi import WSGIHandler
-from django.contrib.staticfiles.handlers import StaticFilesHandler
+		const importStart = performance.now();
+		await pyodide.runPythonAsync(PRE_IMPORT_CODE);
+		bootTimings.djangoImport = performance.now() - importStart;
+		bootTimings.source = 'fresh';
+		bootTimings.total = performance.now() - initStartTime;
 
-# Set Django environment variables (but don't call django.setup() yet)
-os.environ['DJANGO_ALLOW_ASYNC_UNSAFE'] = 'true'
-		`);
+		// Capture the interpreter before any project code runs in it
+		if (snapshotNeeded) {
+			memorySnapshot = takeMemorySnapshot();
+		}
 
 		djangoInstalled = true;
 		log('Django installed successfully', 'success', 'django');
 
 		// Note: Snapshot creation is handled by message-handlers.ts after 'ready' is sent
-		// This prevents duplicate snapshot creation and ensures it's only done for first worker
+		// This keeps it off the critical path - see needsSnapshot()
 
 		return true;
 	} catch (error) {
@@ -124,10 +218,102 @@ os.environ['DJANGO_ALLOW_ASYNC_UNSAFE'] = 'true'
 	}
 }
 
+/**
+ * Snapshot the interpreter heap, or null where this Pyodide build or state does not allow it
+ * (the site-packages tarball is then the only cached copy)
+ */
+function takeMemorySnapshot(): Uint8Array | null {
+	if (typeof pyodide.makeMemorySnapshot !== 'function') {
+		log('Memory snapshots are not supported by this Pyodide release', 'info', 'worker');
+		return null;
+	}
+
+	try {
+		const start = performance.now();
+		const memory: Uint8Array = pyodide.makeMemorySnapshot();
+		log(
+			`Memory snapshot taken in ${(performance.now() - start).toFixed(0)}ms (${(memory.length / 1024 / 1024).toFixed(1)} MB)`,
+			'info',
+			'worker'
+		);
+		return memory;
+	} catch (error) {
+		log(`Memory snapshot failed, caching site-packages only: ${error}`, 'warning', 'worker');
+		return null;
+	}
+}
+
+/**
+ * Set the requirements.txt packages to install during init
+ * Must be called before installDjango so the snapshot key matches
+ */
+export async function setRequirements(list: string[]) {
+	requirements = list;
+	requirementsHash = list.length > 0 ? await hashRequirements(list) : '';
+}
+
+/**
+ * Short, order-independent hash of the requirement specifiers
+ */
+async function hashRequirements(list: string[]): Promise<string> {
+	const normalized = list
+		.map((requirement) => requirement.replace(/\s+/g, '').toLowerCase())
+		.sort()
+		.join('\n');
+	const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalized));
+	return Array.from(new Uint8Array(digest).slice(0, 8))
+		.map((byte) => byte.toString(16).padStart(2, '0'))
+		.join('');
+}
+
+/**
+ * Install every requirement, reporting progress and failures to the Console
+ * Returns false if any requirement failed
+ */
+async function installRequirements(): Promise<boolean> {
+	if (requirements.length === 0) {
+		return true;
+	}
+
+	log(`📦 Installing ${requirements.length} package(s) from requirements.txt...`, 'info');
+
+	const failed: string[] = [];
+	for (const [index, requirement] of requirements.entries()) {
+		const progress = `[${index + 1}/${requirements.length}]`;
+		try {
+			await micropipInstall(requirement);
+			log(`📦 ${progress} ${requirement} installed`, 'success');
+		} catch (error) {
+			failed.push(requirement);
+			// micropip errors end with the useful line after a Python traceback
+			const reason = String(error).trim().split('\n').pop();
+			log(`📦 ${progress} Failed to install ${requirement}: ${reason}`, 'error');
+		}
+	}
+
+	failedRequirements = failed;
+	if (failed.length > 0) {
+		log(`📦 ${failed.length} package(s) failed to install: ${failed.join(', ')}`, 'warning');
+		return false;
+	}
+	return true;
+}
+
+/**
+ * Install a requirement with micropip from the configured wheel indexes (PyPI by default)
+ */
+async function micropipInstall(requirement: string) {
+	const micropip = pyodide.pyimport('micropip');
+	const { wheelIndexURLs } = getRuntimeConfig();
+	if (wheelIndexURLs.length === 0) {
+		return micropip.install(requirement);
+	}
+	return micropip.install.callKwargs(requirement, { index_urls: wheelIndexURLs });
+}
+
 export async function installPackage(packageName: string) {
 	try {
-		const micropip = pyodide.pyimport('micropip');
-		await micropip.install(packageName);
+		await micropipInstall(packageName);
 		log(`Package ${packageName} installed`, 'success');
 		return true;
 	} catch (error) {
@@ -136,6 +322,57 @@ export async function installPackage(packageName: string) {
 	}
 }
 
+/**
+ * Register the buffer the pool writes SIGINT (2) into to interrupt running Python
+ */
+export function setInterruptBuffer(buffer: Uint8Array) {
+	if (!pyodide) {
+		return;
+	}
+	pyodide.setInterruptBuffer(buffer);
+	log('Interrupt buffer registered', 'info', 'worker');
+}
+
+/**
+ * Report whether the interpreter still works and how large its WebAssembly heap has grown
+ */
+export function getHealth(): WorkerHealth {
+	if (!pyodide) {
+		return { healthy: true, heapBytes: null };
+	}
+
+	let healthy = true;
+	try {
+		// Fails with "Pyodide already fatally failed" after an unrecoverable error
+		pyodide.runPython('None');
+	} catch {
+		healthy = false;
+	}
+
+	return { healthy, heapBytes: getHeapBytes() };
+}
+
+/**
+ * Size of the WebAssembly heap, or null where it cannot be read
+ * Pyodide has no public API for it: this reads the private Emscripten module, which a
+ * release may rename - memory-based recycling is then off rather than broken
+ */
+function getHeapBytes(): number | null {
+	try {
+		const bytes = pyodide._module?.HEAPU8?.buffer?.byteLength;
+		return typeof bytes === 'number' ? bytes : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Durations of the boot phases this worker went through
+ */
+export function getBootTimings(): BootTimings {
+	return { ...bootTimings };
+}
+
 export function getPyodide() {
 	return pyodide;
 }
@@ -144,6 +381,20 @@ export function isPyodideReady() {
 	return pyodide !== null;
 }
 
+/**
+ * The requirements.txt packages that failed to install during init
+ */
+export function getFailedRequirements(): string[] {
+	return [...failedRequirements];
+}
+
+/**
+ * Whether this worker installed packages that are not cached yet
+ */
+export function needsSnapshot(): boolean {
+	return snapshotNeeded;
+}
+
 /**
  * Create a snapshot of the current Pyodide state
  * This should be called after the worker is ready to avoid blocking initialization
@@ -155,7 +406,8 @@ export async function createPyodideSnapshot(): Promise<void> {
 	}
 
 	try {
-		await createSnapshot(pyodide, DJANGO_VERSION);
+		await createSnapshot(pyodide, getSnapshotKey(), memorySnapshot);
+		memorySnapshot = null;
 	} catch (error) {
 		console.error('[pyodide-manager] Failed to create snapshot:', error);
 	}
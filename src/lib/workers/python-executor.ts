@@ -1,112 +1,152 @@
-import type { WorkerRequest, WorkerResponse } from '$lib/types';
+import {
+	WORKER_PROTOCOL_VERSION,
+	type WorkerRequest,
+	type WorkerResponse,
+	type WorkerResponseMessage
+} from '$lib/types';
 import {
 	handleInit,
 	handleInstallPackage,
 	handleExecute,
-	handleWriteFiles,
+	handleWebSocket,
+	handleSyncFiles,
+	handleReloadModules,
 	handleRunMigrations,
 	handleMakeMigrations,
 	handleCreateSuperuser,
 	handleGetDatabase,
-	handleSetDatabase
+	handleSetDatabase,
+	handlePing,
+	handleListSnapshots,
+	handleDeleteSnapshots
 } from './handlers/message-handlers';
 
-// Handle incoming messages
-self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
-	const { type, payload } = event.data;
-
-	let response: WorkerResponse;
-
-	switch (type) {
+async function handleRequest(request: WorkerRequest): Promise<WorkerResponseMessage> {
+	switch (request.type) {
 		case 'init':
-			response = await handleInit(payload?.isFirstLoad);
-			break;
+			return handleInit(
+				request.payload?.isFirstLoad,
+				request.payload?.interruptBuffer,
+				request.payload?.requirements,
+				request.payload?.versions
+			);
 
 		case 'installPackage':
-			if (payload?.package) {
-				response = await handleInstallPackage(payload.package);
-			} else {
-				response = {
-					type: 'error',
-					payload: { message: 'No package name provided' }
-				};
+			if (request.payload?.package) {
+				return handleInstallPackage(request.payload.package);
 			}
-			break;
+			return {
+				type: 'error',
+				payload: { message: 'No package name provided' }
+			};
 
 		case 'execute':
-			response = await handleExecute(payload);
-			break;
-
-		case 'writeFiles':
-			if (payload?.files) {
-				response = await handleWriteFiles(payload.files);
-			} else {
-				response = {
-					type: 'error',
-					payload: { message: 'No files provided' }
-				};
+			return handleExecute(request.payload);
+
+		case 'websocket':
+			if (request.payload?.connectionId) {
+				return handleWebSocket(request.payload);
 			}
-			break;
+			return {
+				type: 'error',
+				payload: { message: 'No websocket connection id provided' }
+			};
 
-		case 'runMigrations':
-			if (payload?.files) {
-				response = await handleRunMigrations(payload.files);
-			} else {
-				response = {
-					type: 'error',
-					payload: { message: 'No files provided for migrations' }
-				};
+		case 'syncFiles':
+			if (request.payload?.changes) {
+				return handleSyncFiles(request.payload.changes);
 			}
-			break;
+			return {
+				type: 'error',
+				payload: { message: 'No file changes provided' }
+			};
 
-		case 'makeMigrations':
-			if (payload?.files) {
-				response = await handleMakeMigrations(payload.files);
-			} else {
-				response = {
-					type: 'error',
-					payload: { message: 'No files provided for migrations' }
-				};
+		case 'reloadModules':
+			if (request.payload?.paths) {
+				return handleReloadModules(request.payload.paths);
 			}
-			break;
-
-		case 'createSuperuser':
-			if (payload?.files && payload?.username && payload?.email && payload?.password) {
-				response = await handleCreateSuperuser(
-					payload.files,
-					payload.username,
-					payload.email,
-					payload.password
-				);
-			} else {
-				response = {
-					type: 'error',
-					payload: { message: 'Missing required fields for superuser creation' }
-				};
+			return {
+				type: 'error',
+				payload: { message: 'No paths provided for reload' }
+			};
+
+		case 'runMigrations':
+			return handleRunMigrations();
+
+		case 'makeMigrations':
+			return handleMakeMigrations();
+
+		case 'createSuperuser': {
+			const payload = request.payload;
+			if (payload?.username && payload?.email && payload?.password) {
+				return handleCreateSuperuser(payload.username, payload.email, payload.password);
 			}
-			break;
+			return {
+				type: 'error',
+				payload: { message: 'Missing required fields for superuser creation' }
+			};
+		}
 
 		case 'getDatabase':
-			response = await handleGetDatabase();
-			break;
+			return handleGetDatabase();
 
 		case 'setDatabase':
-			if (payload?.dbData) {
-				response = await handleSetDatabase(payload.dbData);
-			} else {
-				response = {
-					type: 'error',
-					payload: { message: 'No database data provided' }
-				};
+			if (request.payload?.dbData) {
+				return handleSetDatabase(request.payload.dbData);
 			}
-			break;
+			return {
+				type: 'error',
+				payload: { message: 'No database data provided' }
+			};
+
+		case 'ping':
+			return handlePing();
+
+		case 'listSnapshots':
+			return handleListSnapshots();
+
+		case 'deleteSnapshots':
+			return handleDeleteSnapshots(request.payload?.key);
 
 		default:
-			response = {
+			return {
 				type: 'error',
-				payload: { message: `Unknown message type: ${type}` }
+				payload: { message: `Unknown message type: ${(request as WorkerRequest).type}` }
 			};
 	}
+}
+
+// Handle incoming messages
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+	const request = event.data;
+
+	let message: WorkerResponseMessage;
+
+	if (request.version !== WORKER_PROTOCOL_VERSION) {
+		message = {
+			type: 'error',
+			payload: {
+				message: `Protocol version mismatch: worker speaks v${WORKER_PROTOCOL_VERSION}, got v${request.version}`
+			}
+		};
+	} else {
+		try {
+			message = await handleRequest(request);
+		} catch (error) {
+			// Reply anyway so the caller's promise settles instead of hanging
+			message = {
+				type: 'error',
+				payload: { message: `${request.type} failed: ${error}` }
+			};
+		}
+	}
+
+	// Echo the request id so the pool can settle the matching call
+	const response: WorkerResponse = {
+		...message,
+		id: request.id,
+		version: WORKER_PROTOCOL_VERSION
+	};
 
 	self.postMessage(response);
 };
@@ -1,20 +1,38 @@
+import type { SnapshotInfo } from '$lib/types';
 import { log } from './logger';
 
 const DB_NAME = 'pyodide-snapshots';
-const DB_VERSION = 1;
+const DB_VERSION = 2;
 const STORE_NAME = 'snapshots';
-const PYODIDE_VERSION = '0.29.0';
+const METADATA_STORE_NAME = 'metadata'; // Small records, so listing and LRU bookkeeping skip the blobs
+
+// Upper bound for all snapshots together; lowered to half the origin's quota when that is smaller
+export const SNAPSHOT_BUDGET = 512 * 1024 * 1024;
 
 interface SnapshotMetadata {
 	version: string;
+	key: string;
 	pyodideVersion: string;
 	djangoVersion: string;
+	requirementsHash?: string;
 	timestamp: number;
+	lastUsed: number;
+	size: number; // Bytes of archive plus memory snapshot
+	archiveHash: string; // SHA-256, checked before the snapshot is used
+	memoryHash?: string;
+}
+
+// Identifies the runtime a snapshot was taken from
+export interface SnapshotKey {
+	pyodideVersion: string;
+	djangoVersion: string;
+	requirementsHash: string; // Empty without requirements.txt
 }
 
-interface SnapshotData {
+export interface SnapshotData {
 	metadata: SnapshotMetadata;
-	archive: Uint8Array;
+	archive: Uint8Array; // gzipped site-packages - the interpreter heap does not include the filesystem
+	memory?: Uint8Array; // Interpreter memory snapshot, absent where Pyodide could not take one
 }
 
 /**
@@ -36,44 +54,128 @@ async function openDB(): Promise<IDBDatabase> {
 			const db = (event.target as IDBOpenDBRequest).result;
 			if (!db.objectStoreNames.contains(STORE_NAME)) {
 				db.createObjectStore(STORE_NAME);
+			} else {
+				// Version 1 snapshots have no hashes, so they cannot be verified
+				request.transaction?.objectStore(STORE_NAME).clear();
+			}
+			if (!db.objectStoreNames.contains(METADATA_STORE_NAME)) {
+				db.createObjectStore(METADATA_STORE_NAME);
 			}
 		};
 	});
 }
 
 /**
- * Generate cache key based on versions
+ * Settle with the result of an IndexedDB request once its transaction commits
+ * Rejects with the transaction's error (e.g. QuotaExceededError) if it aborts
  */
-function getCacheKey(djangoVersion: string): string {
-	return `snapshot-py${PYODIDE_VERSION}-django${djangoVersion}`;
+function runTransaction<T>(
+	db: IDBDatabase,
+	mode: IDBTransactionMode,
+	run: (transaction: IDBTransaction) => IDBRequest<T> | void
+): Promise<T | undefined> {
+	return new Promise((resolve, reject) => {
+		const transaction = db.transaction([STORE_NAME, METADATA_STORE_NAME], mode);
+		const request = run(transaction);
+
+		transaction.oncomplete = () => {
+			resolve(request ? request.result : undefined);
+		};
+		transaction.onabort = () => {
+			reject(transaction.error ?? new Error('Transaction aborted'));
+		};
+		transaction.onerror = () => {
+			reject(transaction.error ?? new Error('Transaction failed'));
+		};
+	});
 }
 
 /**
- * Check if snapshot exists in IndexedDB
+ * Generate cache key based on versions and the requirements.txt packages
+ */
+function getCacheKey({ pyodideVersion, djangoVersion, requirementsHash }: SnapshotKey): string {
+	const key = `snapshot-py${pyodideVersion}-django${djangoVersion}`;
+	return requirementsHash ? `${key}-req${requirementsHash}` : key;
+}
+
+async function sha256(data: Uint8Array): Promise<string> {
+	const digest = await crypto.subtle.digest('SHA-256', data as Uint8Array<ArrayBuffer>);
+	return Array.from(new Uint8Array(digest))
+		.map((byte) => byte.toString(16).padStart(2, '0'))
+		.join('');
+}
+
+function isQuotaError(error: unknown): boolean {
+	return error instanceof DOMException && error.name === 'QuotaExceededError';
+}
+
+function formatMB(bytes: number): string {
+	return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+}
+
+/**
+ * Bytes all snapshots may use together
  */
-export async function hasSnapshot(djangoVersion: string): Promise<boolean> {
+async function getBudget(): Promise<number> {
 	try {
-		const db = await openDB();
-		const transaction = db.transaction([STORE_NAME], 'readonly');
-		const store = transaction.objectStore(STORE_NAME);
-		const key = getCacheKey(djangoVersion);
+		const { quota } = await navigator.storage.estimate();
+		return quota ? Math.min(SNAPSHOT_BUDGET, Math.floor(quota / 2)) : SNAPSHOT_BUDGET;
+	} catch {
+		return SNAPSHOT_BUDGET;
+	}
+}
 
-		return new Promise((resolve, reject) => {
-			const request = store.get(key);
+async function getAllMetadata(db: IDBDatabase): Promise<SnapshotMetadata[]> {
+	const records = await runTransaction(db, 'readonly', (transaction) =>
+		transaction.objectStore(METADATA_STORE_NAME).getAll()
+	);
+	return (records ?? []) as SnapshotMetadata[];
+}
 
-			request.onsuccess = () => {
-				const exists = request.result !== undefined;
-				resolve(exists);
-			};
+async function deleteRecords(db: IDBDatabase, keys: string[]): Promise<void> {
+	if (keys.length === 0) return;
+	await runTransaction(db, 'readwrite', (transaction) => {
+		for (const key of keys) {
+			transaction.objectStore(STORE_NAME).delete(key);
+			transaction.objectStore(METADATA_STORE_NAME).delete(key);
+		}
+	});
+}
 
-			request.onerror = () => {
-				reject(new Error(`Failed to check snapshot: ${request.error}`));
-			};
+/**
+ * Delete least recently used snapshots (never `keep`) until `incoming` more bytes fit the budget
+ */
+async function evictSnapshots(db: IDBDatabase, incoming: number, keep: string): Promise<void> {
+	const budget = await getBudget();
+	const others = (await getAllMetadata(db))
+		.filter((metadata) => metadata.key !== keep)
+		.sort((a, b) => a.lastUsed - b.lastUsed);
+
+	let total = others.reduce((sum, metadata) => sum + metadata.size, 0) + incoming;
+	const evicted: string[] = [];
+	for (const metadata of others) {
+		if (total <= budget) break;
+		evicted.push(metadata.key);
+		total -= metadata.size;
+	}
 
-			transaction.oncomplete = () => {
-				db.close();
-			};
-		});
+	if (evicted.length > 0) {
+		await deleteRecords(db, evicted);
+		console.log(`Evicted ${evicted.length} snapshot(s) to stay within ${formatMB(budget)}`);
+	}
+}
+
+/**
+ * Check if snapshot exists in IndexedDB
+ */
+export async function hasSnapshot(snapshotKey: SnapshotKey): Promise<boolean> {
+	try {
+		const db = await openDB();
+		const metadata = await runTransaction(db, 'readonly', (transaction) =>
+			transaction.objectStore(METADATA_STORE_NAME).get(getCacheKey(snapshotKey))
+		);
+		db.close();
+		return metadata !== undefined;
 	} catch (error) {
 		log(`Error checking snapshot: ${error}`, 'warning');
 		return false;
@@ -81,12 +183,56 @@ export async function hasSnapshot(djangoVersion: string): Promise<boolean> {
 }
 
 /**
- * Create and store a snapshot of site-packages
+ * Load a snapshot from IndexedDB, or null if there is none or it fails its integrity check
+ * A corrupt snapshot is deleted so the next fresh install replaces it
+ */
+export async function getSnapshot(snapshotKey: SnapshotKey): Promise<SnapshotData | null> {
+	let db: IDBDatabase | null = null;
+	try {
+		db = await openDB();
+		const key = getCacheKey(snapshotKey);
+		const snapshotData = (await runTransaction(db, 'readonly', (transaction) =>
+			transaction.objectStore(STORE_NAME).get(key)
+		)) as SnapshotData | undefined;
+		if (!snapshotData) {
+			return null;
+		}
+
+		const { metadata } = snapshotData;
+		const intact =
+			metadata.archiveHash === (await sha256(snapshotData.archive)) &&
+			(!snapshotData.memory || metadata.memoryHash === (await sha256(snapshotData.memory)));
+		if (!intact) {
+			log('Cached snapshot failed its integrity check, installing fresh', 'warning');
+			await deleteRecords(db, [key]);
+			return null;
+		}
+
+		metadata.lastUsed = Date.now();
+		await runTransaction(db, 'readwrite', (transaction) =>
+			transaction.objectStore(METADATA_STORE_NAME).put(metadata, key)
+		);
+
+		return snapshotData;
+	} catch (error) {
+		log(`Error loading snapshot: ${error}`, 'warning');
+		return null;
+	} finally {
+		db?.close();
+	}
+}
+
+/**
+ * Create and store a snapshot of site-packages, with the interpreter memory snapshot if one was taken
+ * Older snapshots are evicted to make room; when the browser's quota is still exceeded the memory
+ * snapshot is dropped, and failing that nothing is cached
  */
 export async function createSnapshot(
 	pyodide: any,
-	djangoVersion: string
+	snapshotKey: SnapshotKey,
+	memory?: Uint8Array | null
 ): Promise<boolean> {
+	let db: IDBDatabase | null = null;
 	try {
 		// This is an internal operation - log to browser console only
 		console.log('Creating Pyodide snapshot...');
@@ -102,9 +248,11 @@ tar_buffer = io.BytesIO()
 tar = tarfile.open(fileobj=tar_buffer, mode='w:gz')
 
 # Add site-packages directory with full path structure
-site_packages_path = '/lib/python3.13/site-packages'
+# The path depends on the Python version of the Pyodide release
+import sysconfig
+site_packages_path = sysconfig.get_paths()['purelib']
 if os.path.exists(site_packages_path):
-    tar.add(site_packages_path, arcname='lib/python3.13/site-packages')
+    tar.add(site_packages_path, arcname=site_packages_path.lstrip('/'))
 
 tar.close()
 tar_buffer.seek(0)
@@ -113,86 +261,101 @@ tar_buffer.read()
 
 		// Convert Python bytes to Uint8Array
 		const archive = new Uint8Array(archiveBytes.toJs());
+		const key = getCacheKey(snapshotKey);
+		const now = Date.now();
 
 		const metadata: SnapshotMetadata = {
-			version: '1.0',
-			pyodideVersion: PYODIDE_VERSION,
-			djangoVersion,
-			timestamp: Date.now()
+			version: '2.0',
+			key,
+			...snapshotKey,
+			timestamp: now,
+			lastUsed: now,
+			size: archive.length,
+			archiveHash: await sha256(archive)
 		};
 
-		const snapshotData: SnapshotData = {
-			metadata,
-			archive
+		const store = async (snapshotData: SnapshotData) => {
+			await runTransaction(db!, 'readwrite', (transaction) => {
+				transaction.objectStore(STORE_NAME).put(snapshotData, key);
+				transaction.objectStore(METADATA_STORE_NAME).put(snapshotData.metadata, key);
+			});
 		};
 
-		// Store in IndexedDB
-		const db = await openDB();
-		const transaction = db.transaction([STORE_NAME], 'readwrite');
-		const store = transaction.objectStore(STORE_NAME);
-		const key = getCacheKey(djangoVersion);
+		const tarballOnly: SnapshotData = { metadata, archive };
+		const attempts: SnapshotData[] = memory
+			? [
+					{
+						metadata: {
+							...metadata,
+							size: archive.length + memory.length,
+							memoryHash: await sha256(memory)
+						},
+						archive,
+						memory
+					},
+					tarballOnly
+				]
+			: [tarballOnly];
 
-		return new Promise((resolve, reject) => {
-			const request = store.put(snapshotData, key);
+		// Store in IndexedDB
+		db = await openDB();
+		await evictSnapshots(db, attempts[0].metadata.size, key);
 
-			request.onsuccess = () => {
+		for (const [index, snapshotData] of attempts.entries()) {
+			try {
+				await store(snapshotData);
 				console.log(
-					`Snapshot created successfully (${(archive.length / 1024 / 1024).toFixed(2)} MB)`
+					`Snapshot created successfully (${formatMB(archive.length)}${snapshotData.memory ? ` + ${formatMB(snapshotData.memory.length)} memory` : ''})`
 				);
-				resolve(true);
-			};
-
-			request.onerror = () => {
-				console.error(`Failed to store snapshot: ${request.error}`);
-				reject(new Error(`Failed to store snapshot: ${request.error}`));
-			};
+				return true;
+			} catch (error) {
+				if (!isQuotaError(error)) {
+					throw error;
+				}
+				if (index === 0) {
+					// Make as much room as possible before trying smaller
+					const others = (await getAllMetadata(db)).filter((entry) => entry.key !== key);
+					await deleteRecords(
+						db,
+						others.map((entry) => entry.key)
+					);
+					try {
+						await store(snapshotData);
+						console.log('Snapshot created after clearing older snapshots');
+						return true;
+					} catch (retryError) {
+						if (!isQuotaError(retryError)) {
+							throw retryError;
+						}
+					}
+				}
+			}
+		}
 
-			transaction.oncomplete = () => {
-				db.close();
-			};
-		});
+		log('Browser storage quota exceeded - workers will install packages fresh', 'warning');
+		return false;
 	} catch (error) {
 		console.error(`Failed to create snapshot: ${error}`);
 		return false;
+	} finally {
+		db?.close();
 	}
 }
 
 /**
- * Restore snapshot from IndexedDB
+ * Extract a snapshot's site-packages into the virtual FS
+ * An interpreter restored from the memory snapshot has Django imported already, so only
+ * the tarball path verifies the import
  */
 export async function restoreSnapshot(
 	pyodide: any,
-	djangoVersion: string
+	snapshotData: SnapshotData,
+	verifyDjango = true
 ): Promise<boolean> {
 	try {
 		// This is an internal operation - log to browser console only
 		console.log('Restoring Pyodide snapshot from cache...');
 
-		const db = await openDB();
-		const transaction = db.transaction([STORE_NAME], 'readonly');
-		const store = transaction.objectStore(STORE_NAME);
-		const key = getCacheKey(djangoVersion);
-
-		const snapshotData: SnapshotData = await new Promise((resolve, reject) => {
-			const request = store.get(key);
-
-			request.onsuccess = () => {
-				if (request.result) {
-					resolve(request.result);
-				} else {
-					reject(new Error('Snapshot not found'));
-				}
-			};
-
-			request.onerror = () => {
-				reject(new Error(`Failed to retrieve snapshot: ${request.error}`));
-			};
-
-			transaction.oncomplete = () => {
-				db.close();
-			};
-		});
-
 		// Write archive to virtual FS and extract using Python
 		// (unpackArchive doesn't support extracting to custom path in older Pyodide versions)
 		pyodide.FS.writeFile('/tmp/snapshot.tar.gz', snapshotData.archive);
@@ -211,20 +374,24 @@ tar.close()
 # Clean up
 os.remove('/tmp/snapshot.tar.gz')
 
+verify_django = ${verifyDjango ? 'True' : 'False'}
+
 # Ensure site-packages is in sys.path
-site_packages_path = '/lib/python3.13/site-packages'
+import sysconfig
+site_packages_path = sysconfig.get_paths()['purelib']
 if site_packages_path not in sys.path:
     sys.path.insert(0, site_packages_path)
 
 # Verify Django
 django_found = False
 django_version = None
-try:
-    import django
-    django_found = True
-    django_version = django.__version__
-except ImportError:
-    pass
+if verify_django:
+    try:
+        import django
+        django_found = True
+        django_version = django.__version__
+    except ImportError:
+        pass
 
 {
     'django_found': django_found,
@@ -236,9 +403,13 @@ except ImportError:
 		// Log debug info to browser console
 		const debugInfo = verifyResult.toJs();
 		const ageInMinutes = Math.round((Date.now() - snapshotData.metadata.timestamp) / 60000);
-		console.log(
-			`Snapshot restored (${ageInMinutes}m ago): Django ${debugInfo.django_found ? 'v' + debugInfo.django_version : 'NOT FOUND'}`
-		);
+		if (verifyDjango) {
+			console.log(
+				`Snapshot restored (${ageInMinutes}m ago): Django ${debugInfo.django_found ? 'v' + debugInfo.django_version : 'NOT FOUND'}`
+			);
+		} else {
+			console.log(`Snapshot files restored (${ageInMinutes}m ago) into a memory snapshot`);
+		}
 
 		return true;
 	} catch (error) {
@@ -247,6 +418,35 @@ except ImportError:
 	}
 }
 
+/**
+ * List cached snapshots, most recently used first
+ * `current` marks the one matching this worker's runtime
+ */
+export async function listSnapshots(
+	current: SnapshotKey
+): Promise<{ snapshots: SnapshotInfo[]; budget: number }> {
+	const db = await openDB();
+	try {
+		const currentKey = getCacheKey(current);
+		const snapshots = (await getAllMetadata(db))
+			.sort((a, b) => b.lastUsed - a.lastUsed)
+			.map((metadata) => ({
+				key: metadata.key,
+				pyodideVersion: metadata.pyodideVersion,
+				djangoVersion: metadata.djangoVersion,
+				requirementsHash: metadata.requirementsHash || undefined,
+				size: metadata.size,
+				hasMemory: metadata.memoryHash !== undefined,
+				createdAt: metadata.timestamp,
+				lastUsed: metadata.lastUsed,
+				current: metadata.key === currentKey
+			}));
+		return { snapshots, budget: await getBudget() };
+	} finally {
+		db.close();
+	}
+}
+
 /**
  * Clear all snapshots from IndexedDB
  */
@@ -255,26 +455,14 @@ export async function clearAllSnapshots(): Promise<boolean> {
 		log('Clearing all snapshots...', 'info');
 
 		const db = await openDB();
-		const transaction = db.transaction([STORE_NAME], 'readwrite');
-		const store = transaction.objectStore(STORE_NAME);
-
-		return new Promise((resolve, reject) => {
-			const request = store.clear();
-
-			request.onsuccess = () => {
-				log('All snapshots cleared', 'success');
-				resolve(true);
-			};
-
-			request.onerror = () => {
-				log(`Failed to clear snapshots: ${request.error}`, 'error');
-				reject(new Error(`Failed to clear snapshots: ${request.error}`));
-			};
-
-			transaction.oncomplete = () => {
-				db.close();
-			};
+		await runTransaction(db, 'readwrite', (transaction) => {
+			transaction.objectStore(STORE_NAME).clear();
+			transaction.objectStore(METADATA_STORE_NAME).clear();
 		});
+		db.close();
+
+		log('All snapshots cleared', 'success');
+		return true;
 	} catch (error) {
 		log(`Error clearing snapshots: ${error}`, 'error');
 		return false;
@@ -282,32 +470,16 @@ export async function clearAllSnapshots(): Promise<boolean> {
 }
 
 /**
- * Clear a specific snapshot
+ * Clear a specific snapshot by its cache key
  */
-export async function clearSnapshot(djangoVersion: string): Promise<boolean> {
+export async function clearSnapshot(key: string): Promise<boolean> {
 	try {
 		const db = await openDB();
-		const transaction = db.transaction([STORE_NAME], 'readwrite');
-		const store = transaction.objectStore(STORE_NAME);
-		const key = getCacheKey(djangoVersion);
-
-		return new Promise((resolve, reject) => {
-			const request = store.delete(key);
-
-			request.onsuccess = () => {
-				log(`Snapshot ${key} cleared`, 'success');
-				resolve(true);
-			};
-
-			request.onerror = () => {
-				log(`Failed to clear snapshot: ${request.error}`, 'error');
-				reject(new Error(`Failed to clear snapshot: ${request.error}`));
-			};
-
-			transaction.oncomplete = () => {
-				db.close();
-			};
-		});
+		await deleteRecords(db, [key]);
+		db.close();
+
+		log(`Snapshot ${key} cleared`, 'success');
+		return true;
 	} catch (error) {
 		log(`Error clearing snapshot: ${error}`, 'error');
 		return false;
@@ -0,0 +1,123 @@
+/// <reference no-default-lib="true"/>
+/// <reference lib="esnext" />
+/// <reference lib="webworker" />
+/// <reference types="@sveltejs/kit" />
+
+// Caches the app shell, the Pyodide runtime and Python wheels so the playground boots offline
+// after the first visit
+
+import { build, files, version } from '$service-worker';
+import { getRuntimeConfig, PYODIDE_VERSIONS } from '$lib/runtime-config';
+
+const sw = self as unknown as ServiceWorkerGlobalScope;
+
+const SHELL_CACHE = `shell-${version}`;
+const RUNTIME_CACHE = 'runtime-v1'; // Survives app deploys - its URLs are versioned
+
+// Mirrored runtime and wheels in static/ are cached on first use instead of on install
+const SHELL_ASSETS = [
+	...build,
+	...files.filter((file) => !file.startsWith('/pyodide/') && !file.startsWith('/wheels/'))
+];
+
+const METADATA_HOSTS = ['pypi.org'];
+const WHEEL_HOSTS = ['files.pythonhosted.org'];
+
+sw.addEventListener('install', (event) => {
+	event.waitUntil(
+		caches
+			.open(SHELL_CACHE)
+			.then((cache) => cache.addAll(SHELL_ASSETS))
+			.then(() => sw.skipWaiting())
+	);
+});
+
+sw.addEventListener('activate', (event) => {
+	event.waitUntil(
+		caches
+			.keys()
+			.then((keys) =>
+				Promise.all(
+					keys
+						.filter((key) => key !== SHELL_CACHE && key !== RUNTIME_CACHE)
+						.map((key) => caches.delete(key))
+				)
+			)
+			.then(() => sw.clients.claim())
+	);
+});
+
+/**
+ * Immutable runtime files: versioned Pyodide assets and wheels from PyPI's file host
+ */
+function isImmutableRuntimeRequest(url: URL): boolean {
+	return (
+		PYODIDE_VERSIONS.some(({ version }) =>
+			url.href.startsWith(getRuntimeConfig(version).pyodideIndexURL)
+		) ||
+		url.pathname.startsWith('/pyodide/') ||
+		WHEEL_HOSTS.includes(url.hostname)
+	);
+}
+
+/**
+ * Package metadata and wheels from PyPI's API or a configured wheel index
+ */
+function isWheelIndexRequest(url: URL): boolean {
+	if (METADATA_HOSTS.includes(url.hostname) || url.pathname.startsWith('/wheels/')) {
+		return true;
+	}
+	return getRuntimeConfig().wheelIndexURLs.some((index) => {
+		const prefix = new URL(index.split('{package_name}')[0], sw.location.href).href;
+		return url.href.startsWith(prefix);
+	});
+}
+
+async function cacheFirst(request: Request, cacheName: string): Promise<Response> {
+	const cache = await caches.open(cacheName);
+	const cached = await cache.match(request);
+	if (cached) {
+		return cached;
+	}
+
+	const response = await fetch(request);
+	if (response.ok) {
+		cache.put(request, response.clone());
+	}
+	return response;
+}
+
+async function networkFirst(request: Request, cacheName: string): Promise<Response> {
+	const cache = await caches.open(cacheName);
+	try {
+		const response = await fetch(request);
+		if (response.ok) {
+			cache.put(request, response.clone());
+		}
+		return response;
+	} catch (error) {
+		const cached = await cache.match(request);
+		if (cached) {
+			return cached;
+		}
+		throw error;
+	}
+}
+
+sw.addEventListener('fetch', (event) => {
+	if (event.request.method !== 'GET') return;
+
+	const url = new URL(event.request.url);
+
+	if (url.origin === sw.location.origin && SHELL_ASSETS.includes(url.pathname)) {
+		event.respondWith(cacheFirst(event.request, SHELL_CACHE));
+	} else if (isImmutableRuntimeRequest(url)) {
+		event.respondWith(cacheFirst(event.request, RUNTIME_CACHE));
+	} else if (isWheelIndexRequest(url)) {
+		// Index contents change between releases, so they are refreshed whenever we are online
+		event.respondWith(networkFirst(event.request, RUNTIME_CACHE));
+	} else if (url.origin === sw.location.origin && event.request.mode === 'navigate') {
+		// The page itself - serve the last copy when offline
+		event.respondWith(networkFirst(event.request, SHELL_CACHE));
+	}
+});